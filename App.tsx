@@ -1,26 +1,64 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { flushSync } from 'react-dom';
 import { FileUpload } from './components/FileUpload';
 import { CustomerCard } from './components/CustomerCard';
 import { SavedTable } from './components/SavedTable';
-import { extractDataFromImage, extractDataFromText, generateDraft } from './services/geminiService';
-import { Customer, GeneratedMessage, GenerationContext } from './types';
+import { RestorePrompt } from './components/RestorePrompt';
+import { DuplicateReview, DuplicateResolution } from './components/DuplicateReview';
+import { CampaignSwitcher } from './components/CampaignSwitcher';
+import { SettingsPanel } from './components/SettingsPanel';
+import { TemplatePicker } from './components/TemplatePicker';
+import { SequenceEditor } from './components/SequenceEditor';
+import { FollowUpQueue, followUpKey } from './components/FollowUpQueue';
+import { GenerationProgress } from './components/GenerationProgress';
+import { ContactExportMenu } from './components/ContactExportMenu';
+import { EmailExportMenu } from './components/EmailExportMenu';
+import { WhatsappSession } from './components/WhatsappSession';
+import { SourceReview } from './components/SourceReview';
+import { extractDataFromText, generateDraft, generateFollowUp, generateReply } from './services/geminiService';
+import { loadWorkspace, saveWorkspace, clearWorkspace, hasWorkspaceContent, loadSettings, saveSettings, DEFAULT_SETTINGS } from './services/storageService';
+import { configureProvider } from './services/llmProvider';
+import { resolveSenderProfile } from './services/senderProfileService';
+import { parseDelimitedText, DELIMITER_LABELS } from './services/textParserService';
+import { findDuplicates, mergeCustomers, DuplicateMatch } from './services/duplicateService';
+import { validateCustomer } from './services/validationService';
+import { createCampaign, duplicateCampaign, resolveActiveCampaign } from './services/campaignService';
+import { addGeneratedRevision } from './services/draftService';
+import { planTemplates, resolveTemplateSelection } from './services/templateService';
+import { languageForCountry, LANGUAGES } from './services/languageService';
+import { JobQueue, runJobQueue } from './services/jobQueue';
+import { LLMError, toLLMError } from './services/llmError';
+import { changeStatus, statusOf } from './services/pipelineService';
+import { addInboundReply, conversationFor, createInboundReply, createThreadMessage, markSuggestionSent, replyLanguage, replySubject, setSuggestion, updateSuggestion } from './services/threadService';
+import { lastSend, sendEmail, wasSent } from './services/smtpService';
+import { extractUploads } from './services/extractionService';
+import { DueFollowUp, findDueFollowUps, followUpHistory, formatStepLabel, resolveSequence, updateFollowUpStep } from './services/sequenceService';
+import { AppSettings, Campaign, Customer, DraftLanguage, GeneratedMessage, GenerationContext, LeadStatus, ProcessingStatus, SavedItem, SendLogEntry, TemplateChannel, UploadedFile, WhatsappLogEntry, WorkspaceSnapshot } from './types';
+
+const AUTOSAVE_DELAY_MS = 500;
+
+type Stage = 'idle' | 'uploading' | 'extracting' | 'reviewing';
+
+// Campaigns with leads open straight into the review list
+const stageForCampaign = (campaign: Campaign): Stage => {
+  return campaign.customers.length > 0 || campaign.savedItems.length > 0 ? 'reviewing' : 'idle';
+};
 
 function App() {
-  const [customers, setCustomers] = useState<Customer[]>([]);
-  const [generatedMessages, setGeneratedMessages] = useState<Record<string, GeneratedMessage>>({});
-  
-  // Settings for the campaign
-  const [context, setContext] = useState<GenerationContext>({
-    senderCompany: "Akkim Construction Chemicals",
-    exhibitionName: "Canton Fair",
-    exhibitionLocation: "Guangzhou, China"
-  });
+  // Each campaign owns its context, active customers, drafts and archive
+  const [campaigns, setCampaigns] = useState<Campaign[]>(() => [createCampaign()]);
+  const [activeCampaignId, setActiveCampaignId] = useState<string>(() => campaigns[0].id);
+
+  const activeCampaign = resolveActiveCampaign(campaigns, activeCampaignId) || campaigns[0];
+  const { customers, generatedMessages, savedItems, context } = activeCampaign;
 
-  // New state for saved/archived customers
-  const [savedItems, setSavedItems] = useState<{customer: Customer, message: GeneratedMessage}[]>([]);
+  // Session persistence: autosave stays off until the user has decided on the previous session
+  const [pendingRestore, setPendingRestore] = useState<WorkspaceSnapshot | null>(null);
+  const [workspaceLoadError, setWorkspaceLoadError] = useState<string | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
 
   const [status, setStatus] = useState<{
-    stage: 'idle' | 'uploading' | 'extracting' | 'reviewing';
+    stage: Stage;
     loading: boolean;
     error: string | null;
   }>({
@@ -31,28 +69,257 @@ function App() {
 
   const [analyzingIds, setAnalyzingIds] = useState<Set<string>>(new Set());
 
-  const handleImageSelected = async (base64Image: string) => {
+  // Bulk "Generate All" run; the queue handle lives in a ref so pause/cancel reach the running instance
+  const [bulkStatus, setBulkStatus] = useState<ProcessingStatus | null>(null);
+  const [bulkLanguage, setBulkLanguage] = useState<DraftLanguage | 'auto'>('auto');
+  const [bulkIds, setBulkIds] = useState<string[]>([]);
+
+  // Why the last draft attempt for a contact failed, keyed by customer id. Cleared when a new attempt starts.
+  const [draftErrors, setDraftErrors] = useState<Record<string, LLMError>>({});
+  // Same for suggested answers to a reply, keyed by customer id
+  const [replyErrors, setReplyErrors] = useState<Record<string, LLMError>>({});
+  // And for follow-up drafts, keyed by followUpKey (lead and step)
+  const [followUpErrors, setFollowUpErrors] = useState<Record<string, LLMError>>({});
+  const queueRef = useRef<JobQueue | null>(null);
+
+  // Bulk "Send All" over SMTP, one message at a time with the configured pause in between
+  const [sendStatus, setSendStatus] = useState<ProcessingStatus | null>(null);
+  const [sendIds, setSendIds] = useState<string[]>([]);
+  const [sendingIds, setSendingIds] = useState<Set<string>>(new Set());
+  const sendQueueRef = useRef<JobQueue | null>(null);
+  // Latest campaigns for jobs that outlive the render that started them
+  const campaignsRef = useRef(campaigns);
+  campaignsRef.current = campaigns;
+
+  const [showWhatsappSession, setShowWhatsappSession] = useState(false);
+
+  // Files done while images and PDFs are being extracted
+  const [extractProgress, setExtractProgress] = useState<ProcessingStatus | null>(null);
+
+  // Uploaded images and PDFs of the current campaign, held in memory (not autosaved) for the source review
+  const [sourceFiles, setSourceFiles] = useState<{ campaignId: string; files: UploadedFile[] }>({ campaignId: '', files: [] });
+  const [showSourceReview, setShowSourceReview] = useState(false);
+  const visibleSourceFiles = sourceFiles.campaignId === activeCampaign.id ? sourceFiles.files : [];
+
+  // Tells the user how the last import was parsed (locally or by the LLM)
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+
+  // Imported rows that look like existing contacts, waiting for a merge decision
+  const [pendingDuplicates, setPendingDuplicates] = useState<{ campaignId: string; matches: DuplicateMatch[] }>({ campaignId: '', matches: [] });
+  const visibleDuplicates = pendingDuplicates.campaignId === activeCampaign.id ? pendingDuplicates.matches : [];
+
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const senderProfile = resolveSenderProfile(settings.senderProfiles, settings.activeSenderProfileId);
+
+  const applySnapshot = (snapshot: WorkspaceSnapshot) => {
+    const restored = resolveActiveCampaign(snapshot.campaigns, snapshot.activeCampaignId);
+    if (restored) {
+      setCampaigns(snapshot.campaigns);
+      setActiveCampaignId(restored.id);
+      setStatus({ stage: stageForCampaign(restored), loading: false, error: null });
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSettings().then(loaded => {
+      if (cancelled) return;
+      setSettings(loaded);
+      configureProvider(loaded.llm);
+    });
+    loadWorkspace().then(snapshot => {
+      if (cancelled) return;
+      if (snapshot && hasWorkspaceContent(snapshot)) {
+        setPendingRestore(snapshot);
+        return;
+      }
+      // Campaign names, contexts and sequences without any leads are restored without asking,
+      // so autosave doesn't replace them with the default campaign
+      if (snapshot) applySnapshot(snapshot);
+      setIsHydrated(true);
+    }).catch(error => {
+      // Autosave stays off so the stored workspace survives until the user chooses to start fresh
+      console.error("Workspace load error:", error);
+      if (!cancelled) setWorkspaceLoadError(error instanceof Error ? error.message : String(error));
+    });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    const timer = setTimeout(() => {
+      saveWorkspace({ campaigns, activeCampaignId: activeCampaign.id });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isHydrated, campaigns, activeCampaign.id]);
+
+  // Updates are addressed by campaign id so async results land in the campaign that started them
+  const updateCampaign = useCallback((campaignId: string, update: (campaign: Campaign) => Campaign) => {
+    setCampaigns(prev => prev.map(c => c.id === campaignId ? update(c) : c));
+  }, []);
+
+  const setContext = (update: (prev: GenerationContext) => GenerationContext) => {
+    updateCampaign(activeCampaign.id, c => ({ ...c, context: update(c.context) }));
+  };
+
+  const handleSettingsChange = (next: AppSettings) => {
+    setSettings(next);
+    configureProvider(next.llm);
+    saveSettings(next);
+  };
+
+  const handleRestoreSession = () => {
+    if (!pendingRestore) return;
+    applySnapshot(pendingRestore);
+    setPendingRestore(null);
+    setIsHydrated(true);
+  };
+
+  const handleDiscardSession = async () => {
+    if (workspaceLoadError && !window.confirm('Start fresh? The saved session that could not be loaded will be overwritten.')) return;
+    await clearWorkspace();
+    setPendingRestore(null);
+    setWorkspaceLoadError(null);
+    setIsHydrated(true);
+  };
+
+  const switchToCampaign = (campaign: Campaign) => {
+    setActiveCampaignId(campaign.id);
+    setStatus({ stage: stageForCampaign(campaign), loading: false, error: null });
+  };
+
+  const handleSelectCampaign = (id: string) => {
+    const campaign = campaigns.find(c => c.id === id);
+    if (campaign) switchToCampaign(campaign);
+  };
+
+  const handleCreateCampaign = () => {
+    const campaign = createCampaign(context, 'New Campaign');
+    setCampaigns(prev => [...prev, campaign]);
+    switchToCampaign(campaign);
+  };
+
+  const handleDuplicateCampaign = () => {
+    const campaign = duplicateCampaign(activeCampaign);
+    setCampaigns(prev => [...prev, campaign]);
+    switchToCampaign(campaign);
+  };
+
+  const handleArchiveCampaign = (id: string, archived: boolean) => {
+    const remaining = campaigns.filter(c => !c.archived && c.id !== id);
+    // Always keep at least one campaign to work in
+    if (archived && remaining.length === 0) return;
+
+    setCampaigns(prev => prev.map(c => c.id === id ? { ...c, archived } : c));
+    if (archived && id === activeCampaign.id) {
+      switchToCampaign(remaining[0]);
+    }
+  };
+
+  const handleRenameCampaign = (name: string) => {
+    updateCampaign(activeCampaign.id, c => ({ ...c, name }));
+  };
+
+  // Appends an import to a campaign's list, holding back likely duplicates for review.
+  // Duplicates are found inside the update so overlapping imports see each other's rows;
+  // flushSync runs it right away so the result is known here.
+  const addImportedCustomers = (campaignId: string, incoming: Customer[]): string => {
+    let result: ReturnType<typeof findDuplicates> | undefined;
+    flushSync(() => updateCampaign(campaignId, c => {
+      result = findDuplicates(incoming, c.customers, c.savedItems);
+      return { ...c, customers: [...c.customers, ...result.unique] };
+    }));
+    if (!result) return 'The campaign was deleted before the import finished.';
+    const { unique, duplicates } = result;
+
+    if (duplicates.length > 0) {
+      setPendingDuplicates(prev => ({
+        campaignId,
+        matches: prev.campaignId === campaignId ? [...prev.matches, ...duplicates] : duplicates
+      }));
+    }
+
+    const summary = `Added ${unique.length} new contact${unique.length === 1 ? '' : 's'}.`;
+    return duplicates.length > 0 ? `${summary} ${duplicates.length} possible duplicate${duplicates.length === 1 ? '' : 's'} need review.` : summary;
+  };
+
+  const resolveDuplicate = (match: DuplicateMatch, resolution: DuplicateResolution) => {
+    const campaignId = pendingDuplicates.campaignId;
+
+    if (resolution === 'merge') {
+      updateCampaign(campaignId, c => match.source === 'archived'
+        ? {
+            ...c,
+            savedItems: c.savedItems.map(item => item.customer.id === match.existing.id
+              ? { ...item, customer: mergeCustomers(item.customer, match.incoming) }
+              : item)
+          }
+        : {
+            ...c,
+            customers: c.customers.map(cust => cust.id === match.existing.id ? mergeCustomers(cust, match.incoming) : cust)
+          });
+    } else if (resolution === 'keepBoth') {
+      updateCampaign(campaignId, c => ({ ...c, customers: [...c.customers, match.incoming] }));
+    }
+  };
+
+  const handleResolveDuplicate = (match: DuplicateMatch, resolution: DuplicateResolution) => {
+    resolveDuplicate(match, resolution);
+    setPendingDuplicates(prev => ({ ...prev, matches: prev.matches.filter(m => m.incoming.id !== match.incoming.id) }));
+  };
+
+  const handleResolveAllDuplicates = (resolution: DuplicateResolution) => {
+    visibleDuplicates.forEach(match => resolveDuplicate(match, resolution));
+    setPendingDuplicates({ campaignId: '', matches: [] });
+  };
+
+  const handleFilesSelected = async (files: UploadedFile[]) => {
+    // Pin the campaign now: the user may switch campaigns while the files are being read
+    const campaignId = activeCampaign.id;
     setStatus({ stage: 'extracting', loading: true, error: null });
+    setImportNotice(null);
     try {
-      const extractedCustomers = await extractDataFromImage(base64Image);
+      const { customers: extractedCustomers, pageCount, failures } = await extractUploads(files, settings.llm, setExtractProgress);
       if (extractedCustomers.length === 0) {
-        throw new Error("No data found in image. Please try a clearer image.");
+        throw new Error(failures[0]?.error.message || "No data found in the uploaded files. Please try clearer images.");
       }
-      setCustomers(extractedCustomers);
+      const read = `Read ${extractedCustomers.length} row${extractedCustomers.length === 1 ? '' : 's'} from ${pageCount} page${pageCount === 1 ? '' : 's'}.`;
+      const failed = failures.length > 0 ? ` Could not read ${failures.map(f => f.file.name).join(', ')}: ${failures[0].error.message}` : '';
+      setImportNotice(`${read}${failed} ${addImportedCustomers(campaignId, extractedCustomers)}`);
+      setSourceFiles(prev => ({
+        campaignId,
+        files: [...(prev.campaignId === campaignId ? prev.files : []), ...files.filter(f => !failures.some(x => x.file.id === f.id))]
+      }));
+      setShowSourceReview(true);
       setStatus({ stage: 'reviewing', loading: false, error: null });
     } catch (err: any) {
-      setStatus({ stage: 'idle', loading: false, error: err.message || "Failed to parse image." });
+      setStatus({ stage: 'idle', loading: false, error: err.message || "Failed to parse the uploaded files." });
+    } finally {
+      setExtractProgress(null);
     }
   };
 
   const handleTextSelected = async (textData: string) => {
+    const campaignId = activeCampaign.id;
+    // Clean tables copied from Excel are parsed locally; only unstructured text goes to the LLM
+    const localResult = parseDelimitedText(textData);
+    if (localResult) {
+      const summary = addImportedCustomers(campaignId, localResult.customers);
+      setImportNotice(`Parsed locally as ${DELIMITER_LABELS[localResult.delimiter]} data (${localResult.customers.length} rows). No AI call was made. ${summary}`);
+      setStatus({ stage: 'reviewing', loading: false, error: null });
+      return;
+    }
+
     setStatus({ stage: 'extracting', loading: true, error: null });
+    setImportNotice(null);
     try {
       const extractedCustomers = await extractDataFromText(textData);
       if (extractedCustomers.length === 0) {
         throw new Error("Could not identify customer data in the pasted text.");
       }
-      setCustomers(extractedCustomers);
+      const summary = addImportedCustomers(campaignId, extractedCustomers);
+      setImportNotice(`The pasted text was not a recognisable table, so it was parsed with AI (${extractedCustomers.length} rows). Please double-check the rows. ${summary}`);
       setStatus({ stage: 'reviewing', loading: false, error: null });
     } catch (err: any) {
       setStatus({ stage: 'idle', loading: false, error: err.message || "Failed to parse text data." });
@@ -60,22 +327,35 @@ function App() {
   };
 
   const handleCustomersLoaded = (loadedCustomers: Customer[]) => {
-    setCustomers(loadedCustomers);
+    setImportNotice(addImportedCustomers(activeCampaign.id, loadedCustomers));
     setStatus({ stage: 'reviewing', loading: false, error: null });
   };
 
-  const handleGenerateDraft = useCallback(async (customer: Customer, language: 'en' | 'ar' = 'en') => {
+  // Throws on failure so the bulk queue can retry; single-card generation goes through handleGenerateDraft
+  const draftFor = useCallback(async (customer: Customer, language: DraftLanguage) => {
+    // Pin the campaign now: the user may switch campaigns while the draft is generating
+    const campaignId = activeCampaign.id;
+    const campaignContext = activeCampaign.context;
+    const templates = planTemplates(
+      settings.templates,
+      resolveTemplateSelection(activeCampaign.templateSelection, customer.templateSelection),
+      language
+    );
     setAnalyzingIds(prev => new Set(prev).add(customer.id));
-    
+    setDraftErrors(({ [customer.id]: _previous, ...rest }) => rest);
+
     try {
-      // Pass the current context values to the generator
-      const message = await generateDraft(customer, context, language);
-      setGeneratedMessages(prev => ({
-        ...prev,
-        [customer.id]: message
+      const message = await generateDraft(customer, campaignContext, language, senderProfile, templates);
+      updateCampaign(campaignId, c => ({
+        ...c,
+        generatedMessages: {
+          ...c.generatedMessages,
+          [customer.id]: addGeneratedRevision(c.generatedMessages[customer.id], message, language)
+        }
       }));
     } catch (err) {
-      console.error(err);
+      setDraftErrors(prev => ({ ...prev, [customer.id]: toLLMError(err) }));
+      throw err;
     } finally {
       setAnalyzingIds(prev => {
         const next = new Set(prev);
@@ -83,28 +363,147 @@ function App() {
         return next;
       });
     }
-  }, [context]);
-
-  const handleGenerateAll = async () => {
-    // Generate for all that don't have one yet, defaulting to English for bulk
-    const toProcess = customers.filter(c => !generatedMessages[c.id]);
-    
-    // Process in small batches to avoid rate limits
-    const BATCH_SIZE = 3;
-    for (let i = 0; i < toProcess.length; i += BATCH_SIZE) {
-        const batch = toProcess.slice(i, i + BATCH_SIZE);
-        await Promise.all(batch.map(c => handleGenerateDraft(c, 'en')));
+  }, [activeCampaign.id, activeCampaign.context, activeCampaign.templateSelection, settings.templates, senderProfile, updateCampaign]);
+
+  const handleGenerateDraft = useCallback(async (customer: Customer, language: DraftLanguage = 'en') => {
+    try {
+      await draftFor(customer, language);
+    } catch {
+      // Already shown on the card, with a retry action
+    }
+  }, [draftFor]);
+
+  const hasBlockingIssues = (customer: Customer) => validateCustomer(customer).some(i => i.severity === 'error');
+  const blockedCount = customers.filter(hasBlockingIssues).length;
+  const dueFollowUps = findDueFollowUps(activeCampaign);
+
+  const runBulk = async (toProcess: Customer[]) => {
+    if (queueRef.current || toProcess.length === 0) return;
+    setBulkIds(toProcess.map(c => c.id));
+
+    const queue = runJobQueue(
+      toProcess,
+      (c: Customer) => draftFor(c, bulkLanguage === 'auto' ? languageForCountry(c.country) : bulkLanguage),
+      { concurrency: settings.llm.concurrency, maxRetries: settings.llm.maxRetries },
+      setBulkStatus
+    );
+    queueRef.current = queue;
+    await queue.finished;
+    queueRef.current = null;
+  };
+
+  const handleGenerateAll = () => {
+    // Generate for all that don't have one yet, by default each in the language of the lead's country.
+    // Contacts with data errors are skipped until they are fixed on their card.
+    runBulk(customers.filter(c => !generatedMessages[c.id] && !hasBlockingIssues(c)));
+  };
+
+  const bulkFailures = customers.filter(c => bulkIds.includes(c.id) && draftErrors[c.id]);
+
+  // Sends one draft and records the attempt on the lead; throws on failure so the send queue counts it
+  const sendTo = async (campaignId: string, customer: Customer, message: GeneratedMessage) => {
+    const id = customer.id;
+    setSendingIds(prev => new Set(prev).add(id));
+    let entry: SendLogEntry;
+    try {
+      entry = await sendEmail(customer, message, senderProfile, settings.smtp);
+    } finally {
+      setSendingIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+
+    updateCampaign(campaignId, c => ({
+      ...c,
+      sendLog: { ...c.sendLog, [id]: [...(c.sendLog?.[id] || []), entry] },
+      // An archived lead that was only saved so far has now been contacted
+      savedItems: entry.result === 'sent'
+        ? c.savedItems.map(item => item.customer.id === id && statusOf(item) === 'saved' ? changeStatus(item, 'sent', `Emailed via ${settings.smtp.host}`) : item)
+        : c.savedItems
+    }));
+    if (entry.result === 'failed') throw new Error(entry.response);
+  };
+
+  const handleSendEmail = async (id: string) => {
+    const saved = savedItems.find(i => i.customer.id === id);
+    const customer = saved?.customer || customers.find(c => c.id === id);
+    const message = saved?.message || generatedMessages[id];
+    if (!customer?.email || !message) return;
+
+    const log = activeCampaign.sendLog?.[id];
+    const question = `${wasSent(log) ? 'This lead was already emailed. ' : ''}Send "${message.subject}" to ${customer.email} via ${settings.smtp.host}:${settings.smtp.port}?`;
+    if (!window.confirm(question)) return;
+    try {
+      await sendTo(activeCampaign.id, customer, message);
+    } catch {
+      // Recorded in the send log and shown with the draft
     }
   };
 
-  const handleDelete = (id: string) => {
-    setCustomers(prev => prev.filter(c => c.id !== id));
-    // Also cleanup message if exists
-    if (generatedMessages[id]) {
-      const newMessages = { ...generatedMessages };
-      delete newMessages[id];
-      setGeneratedMessages(newMessages);
+  const runSendQueue = async (toSend: Customer[]) => {
+    if (sendQueueRef.current || toSend.length === 0) return;
+    setSendIds(toSend.map(c => c.id));
+
+    const campaignId = activeCampaign.id;
+    const queue = runJobQueue(
+      toSend,
+      (c: Customer) => {
+        // Read at send time: the draft or address may have been edited while earlier messages went out
+        const campaign = campaignsRef.current.find(x => x.id === campaignId);
+        const customer = campaign?.customers.find(x => x.id === c.id);
+        const message = campaign?.generatedMessages[c.id];
+        if (!customer?.email || !message) throw new Error('The draft was removed before it could be sent.');
+        return sendTo(campaignId, customer, message);
+      },
+      { concurrency: 1, maxRetries: 0, intervalMs: settings.smtp.throttleSeconds * 1000 },
+      setSendStatus
+    );
+    sendQueueRef.current = queue;
+    await queue.finished;
+    sendQueueRef.current = null;
+  };
+
+  const handleSendAll = () => {
+    // Drafts with an email address that haven't gone out yet
+    const toSend = customers.filter(c => c.email && generatedMessages[c.id] && !wasSent(activeCampaign.sendLog?.[c.id]));
+    if (toSend.length === 0) {
+      window.alert('Every draft with an email address has already been sent.');
+      return;
     }
+    const { host, port, throttleSeconds } = settings.smtp;
+    if (!window.confirm(`Send ${toSend.length} email${toSend.length === 1 ? '' : 's'} via ${host}:${port}, one every ${throttleSeconds}s?`)) return;
+    runSendQueue(toSend);
+  };
+
+  const handleRecordWhatsapp = (customerId: string, entry: WhatsappLogEntry) => {
+    updateCampaign(activeCampaign.id, c => ({
+      ...c,
+      whatsappLog: { ...c.whatsappLog, [customerId]: [...(c.whatsappLog?.[customerId] || []), entry] }
+    }));
+  };
+
+  const sendFailures = customers.filter(c => sendIds.includes(c.id) && lastSend(activeCampaign.sendLog?.[c.id])?.result === 'failed');
+
+  const handleDelete = (id: string) => {
+    updateCampaign(activeCampaign.id, c => {
+      // Also cleanup message if exists
+      const { [id]: _removed, ...remainingMessages } = c.generatedMessages;
+      const { [id]: _log, ...remainingLog } = c.sendLog || {};
+      const { [id]: _whatsapp, ...remainingWhatsapp } = c.whatsappLog || {};
+      const { [id]: _held, ...remainingHeld } = c.heldPipelines || {};
+      const { [id]: _followUps, ...remainingFollowUps } = c.followUps || {};
+      return {
+        ...c,
+        customers: c.customers.filter(cust => cust.id !== id),
+        generatedMessages: remainingMessages,
+        heldPipelines: remainingHeld,
+        followUps: remainingFollowUps,
+        sendLog: remainingLog,
+        whatsappLog: remainingWhatsapp
+      };
+    });
   };
 
   const handleSave = (id: string) => {
@@ -112,16 +511,173 @@ function App() {
     const message = generatedMessages[id];
 
     if (customer && message) {
-      // Add to saved items
-      setSavedItems(prev => [...prev, { customer, message }]);
-      
-      // Remove from active list
-      handleDelete(id);
+      // Move from the active list to the archive
+      updateCampaign(activeCampaign.id, c => {
+        const { [id]: _saved, ...remainingMessages } = c.generatedMessages;
+        // A lead that was archived before picks up its status, conversation and follow-up schedule again
+        const { [id]: held, ...remainingHeld } = c.heldPipelines || {};
+        return {
+          ...c,
+          customers: c.customers.filter(cust => cust.id !== id),
+          generatedMessages: remainingMessages,
+          heldPipelines: remainingHeld,
+          savedItems: [...c.savedItems, { ...held, customer, message, savedAt: held?.savedAt ?? Date.now() }]
+        };
+      });
     }
   };
 
+  const handleUpdateCustomer = (updated: Customer) => {
+    updateCampaign(activeCampaign.id, c => ({
+      ...c,
+      customers: c.customers.map(cust => cust.id === updated.id ? updated : cust)
+    }));
+  };
+
+  const handleUpdateMessage = (customerId: string, message: GeneratedMessage) => {
+    updateCampaign(activeCampaign.id, c => ({
+      ...c,
+      generatedMessages: { ...c.generatedMessages, [customerId]: message }
+    }));
+  };
+
   const handleDeleteSaved = (id: string) => {
-    setSavedItems(prev => prev.filter(item => item.customer.id !== id));
+    updateCampaign(activeCampaign.id, c => {
+      const { [id]: _removed, ...remainingFollowUps } = c.followUps || {};
+      const { [id]: _log, ...remainingLog } = c.sendLog || {};
+      const { [id]: _whatsapp, ...remainingWhatsapp } = c.whatsappLog || {};
+      return {
+        ...c,
+        savedItems: c.savedItems.filter(item => item.customer.id !== id),
+        followUps: remainingFollowUps,
+        sendLog: remainingLog,
+        whatsappLog: remainingWhatsapp
+      };
+    });
+  };
+
+
+  const handleRestoreSaved = (id: string) => {
+    const item = savedItems.find(i => i.customer.id === id);
+    if (!item) return;
+
+    // Back to the active list with its draft; the pipeline history and follow-up progress are held until it is archived again
+    const { customer, message, ...pipeline } = item;
+    updateCampaign(activeCampaign.id, c => ({
+      ...c,
+      customers: [...c.customers, customer],
+      generatedMessages: { ...c.generatedMessages, [id]: message },
+      savedItems: c.savedItems.filter(i => i.customer.id !== id),
+      heldPipelines: { ...c.heldPipelines, [id]: pipeline }
+    }));
+  };
+
+  const updateSavedItem = (campaignId: string, id: string, update: (item: SavedItem) => SavedItem) => {
+    updateCampaign(campaignId, c => ({
+      ...c,
+      savedItems: c.savedItems.map(item => item.customer.id === id ? update(item) : item)
+    }));
+  };
+
+  const handleStatusChange = (id: string, status: LeadStatus, note: string) => {
+    updateSavedItem(activeCampaign.id, id, item => changeStatus(item, status, note));
+  };
+
+  // Drafts an answer to the latest customer message, in the channel and language they used
+  const suggestReply = async (campaign: Campaign, item: SavedItem) => {
+    const id = item.customer.id;
+    const lastInbound = [...(item.thread || [])].reverse().find(m => m.direction === 'inbound');
+    if (!lastInbound) return;
+
+    const language = replyLanguage(item);
+    const conversation = conversationFor(item, resolveSequence(campaign), campaign.followUps?.[id]);
+    setAnalyzingIds(prev => new Set(prev).add(id));
+    setReplyErrors(({ [id]: _previous, ...rest }) => rest);
+
+    try {
+      const reply = await generateReply(item.customer, campaign.context, language, senderProfile, lastInbound.channel, replySubject(item), conversation);
+      const suggestion = createThreadMessage('outbound', lastInbound.channel, reply.body, { subject: reply.subject || undefined, language });
+      updateSavedItem(campaign.id, id, current => setSuggestion(current, suggestion));
+    } catch (err) {
+      console.error(err);
+      setReplyErrors(prev => ({ ...prev, [id]: toLLMError(err) }));
+    } finally {
+      setAnalyzingIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+      });
+    }
+  };
+
+  const handleAddReply = (id: string, channel: TemplateChannel, body: string) => {
+    const campaign = campaignsRef.current.find(c => c.id === activeCampaign.id);
+    const item = campaign?.savedItems.find(i => i.customer.id === id);
+    if (!campaign || !item) return;
+
+    const reply = createInboundReply(channel, body);
+    // Applied to the item as it is when the update lands, so a suggestion or status change in between is kept
+    const receive = (current: SavedItem): SavedItem => {
+      const updated = addInboundReply(current, reply);
+      // A reply ends the follow-up sequence for this lead
+      return ['saved', 'sent'].includes(statusOf(updated)) ? changeStatus(updated, 'replied', 'Reply received') : updated;
+    };
+    updateSavedItem(campaign.id, id, receive);
+    suggestReply(campaign, receive(item));
+  };
+
+  const handleSuggestReply = (id: string) => {
+    const item = savedItems.find(i => i.customer.id === id);
+    if (item) suggestReply(activeCampaign, item);
+  };
+
+  const handleUpdateSuggestion = (id: string, body: string) => {
+    updateSavedItem(activeCampaign.id, id, item => updateSuggestion(item, { body }));
+  };
+
+  const handleMarkReplySent = (id: string) => {
+    updateSavedItem(activeCampaign.id, id, markSuggestionSent);
+  };
+
+  const handleGenerateFollowUp = async (due: DueFollowUp) => {
+    // Pinned like handleGenerateDraft, since the campaign may change while generating
+    const campaignId = activeCampaign.id;
+    const history = followUpHistory(due.item, resolveSequence(activeCampaign), activeCampaign.followUps?.[due.item.customer.id]);
+    const language = due.item.message.language || languageForCountry(due.item.customer.country);
+    const key = followUpKey(due);
+    setAnalyzingIds(prev => new Set(prev).add(key));
+    setFollowUpErrors(({ [key]: _previous, ...rest }) => rest);
+
+    try {
+      const message = await generateFollowUp(due.item.customer, activeCampaign.context, language, senderProfile, due.step, history);
+      updateCampaign(campaignId, c => updateFollowUpStep(c, due.item.customer, due.step.id, { message }));
+    } catch (err) {
+      console.error(err);
+      setFollowUpErrors(prev => ({ ...prev, [key]: toLLMError(err) }));
+    } finally {
+      setAnalyzingIds(prev => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  };
+
+  const handleFollowUpDone = (due: DueFollowUp) => {
+    updateCampaign(activeCampaign.id, c => {
+      const updated = updateFollowUpStep(c, due.item.customer, due.step.id, { doneAt: Date.now() });
+      // Sending a follow-up implies the lead was contacted
+      return {
+        ...updated,
+        savedItems: updated.savedItems.map(item => item.customer.id === due.item.customer.id && statusOf(item) === 'saved'
+          ? changeStatus(item, 'sent', `${formatStepLabel(due.step)} follow-up sent`)
+          : item)
+      };
+    });
+  };
+
+  const handleFollowUpSkip = (due: DueFollowUp) => {
+    updateCampaign(activeCampaign.id, c => updateFollowUpStep(c, due.item.customer, due.step.id, { skipped: true }));
   };
 
   return (
@@ -135,18 +691,61 @@ function App() {
               <div className="h-8 w-8 bg-red-600 rounded flex items-center justify-center text-white font-bold">A</div>
               <div>
                 <h1 className="text-xl font-bold text-gray-900 tracking-tight">Akfix Outreach</h1>
-                <p className="text-xs text-gray-500">Canton Fair Follow-up Automation</p>
+                <p className="text-xs text-gray-500">{context.exhibitionName || activeCampaign.name} Follow-up Automation</p>
               </div>
             </div>
             <div className="flex items-center">
               <span className="text-sm text-gray-500 mr-2">User:</span>
-              <span className="text-sm font-medium text-gray-900 bg-gray-100 px-3 py-1 rounded-full">Ahmed Seref</span>
+              {settings.senderProfiles.length > 1 ? (
+                <select
+                  value={senderProfile.id}
+                  onChange={(e) => handleSettingsChange({ ...settings, activeSenderProfileId: e.target.value })}
+                  className="text-sm font-medium text-gray-900 bg-gray-100 border-0 rounded-full py-1 focus:ring-red-500"
+                >
+                  {settings.senderProfiles.map(p => (
+                    <option key={p.id} value={p.id}>{p.name || 'Unnamed profile'}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-sm font-medium text-gray-900 bg-gray-100 px-3 py-1 rounded-full">{senderProfile.name || 'Unnamed profile'}</span>
+              )}
+              <button
+                onClick={() => setShowSettings(prev => !prev)}
+                className="ml-3 p-1.5 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded-full transition-colors"
+                title="Settings"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M9.594 3.94c.09-.542.56-.94 1.11-.94h2.593c.55 0 1.02.398 1.11.94l.213 1.281c.063.374.313.686.645.87.074.04.147.083.22.127.324.196.72.257 1.075.124l1.217-.456a1.125 1.125 0 011.37.49l1.296 2.247a1.125 1.125 0 01-.26 1.431l-1.003.827c-.293.24-.438.613-.431.992a6.759 6.759 0 010 .255c-.007.378.138.75.43.99l1.005.828c.424.35.534.954.26 1.43l-1.298 2.247a1.125 1.125 0 01-1.369.491l-1.217-.456c-.355-.133-.75-.072-1.076.124a6.57 6.57 0 01-.22.128c-.331.183-.581.495-.644.869l-.213 1.28c-.09.543-.56.941-1.11.941h-2.594c-.55 0-1.02-.398-1.11-.94l-.213-1.281c-.062-.374-.312-.686-.644-.87a6.52 6.52 0 01-.22-.127c-.325-.196-.72-.257-1.076-.124l-1.217.456a1.125 1.125 0 01-1.369-.49l-1.297-2.247a1.125 1.125 0 01.26-1.431l1.004-.827c.292-.24.437-.613.43-.992a6.932 6.932 0 010-.255c.007-.378-.138-.75-.43-.99l-1.004-.828a1.125 1.125 0 01-.26-1.43l1.297-2.247a1.125 1.125 0 011.37-.491l1.216.456c.356.133.751.072 1.076-.124.072-.044.146-.087.22-.128.332-.183.582-.495.644-.869l.214-1.281z" />
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                </svg>
+              </button>
             </div>
           </div>
         </div>
       </nav>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 mt-8">
+
+        {showSettings && (
+          <SettingsPanel
+            settings={settings}
+            onChange={handleSettingsChange}
+            onClose={() => setShowSettings(false)}
+            previewCustomers={customers}
+            context={context}
+            senderProfile={senderProfile}
+          />
+        )}
+
+        {/* Restore Previous Session */}
+        {(pendingRestore || workspaceLoadError) && (
+          <RestorePrompt
+            snapshot={pendingRestore}
+            loadError={workspaceLoadError}
+            onRestore={handleRestoreSession}
+            onDiscard={handleDiscardSession}
+          />
+        )}
         
         {/* Campaign Settings */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
@@ -156,7 +755,25 @@ function App() {
             </svg>
             Campaign Configuration
           </h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <CampaignSwitcher
+            campaigns={campaigns}
+            activeCampaignId={activeCampaign.id}
+            onSelect={handleSelectCampaign}
+            onCreate={handleCreateCampaign}
+            onDuplicate={handleDuplicateCampaign}
+            onArchive={handleArchiveCampaign}
+          />
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Campaign Name</label>
+              <input 
+                type="text" 
+                value={activeCampaign.name}
+                onChange={(e) => handleRenameCampaign(e.target.value)}
+                className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+                placeholder="e.g. Big 5 Dubai 2025"
+              />
+            </div>
             <div>
               <label className="block text-xs font-medium text-gray-700 mb-1">Company Name</label>
               <input 
@@ -188,7 +805,23 @@ function App() {
               />
             </div>
           </div>
-          <p className="text-xs text-gray-500 mt-2">These details will be used to customize the email and WhatsApp drafts.</p>
+          <p className="text-xs text-gray-500 mt-2">These details will be used to customize the email and WhatsApp drafts for this campaign only.</p>
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            <TemplatePicker
+              templates={settings.templates}
+              selection={activeCampaign.templateSelection}
+              onChange={(templateSelection) => updateCampaign(activeCampaign.id, c => ({ ...c, templateSelection }))}
+            />
+            <p className="text-xs text-gray-500 mt-2">Edit the template library in Settings. Contacts can override these on their card.</p>
+          </div>
+          <div className="mt-4 pt-4 border-t border-gray-100">
+            <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">Follow-up Sequence</h3>
+            <SequenceEditor
+              steps={resolveSequence(activeCampaign)}
+              onChange={(sequence) => updateCampaign(activeCampaign.id, c => ({ ...c, sequence }))}
+            />
+            <p className="text-xs text-gray-500 mt-2">Days count from when a contact is saved to the archive. Due steps appear under "Due Today".</p>
+          </div>
         </div>
 
         {/* Error Notification */}
@@ -213,17 +846,28 @@ function App() {
              <h2 className="text-3xl font-bold text-gray-900 mb-4">Import Your Customer List</h2>
              <p className="text-lg text-gray-600 mb-8 max-w-2xl mx-auto">
                Upload a clear photo or paste Excel data from your exhibition spreadsheet.
+               {customers.length > 0 && ' New contacts are added to your current list.'}
              </p>
+             {customers.length > 0 && !status.loading && (
+               <button
+                 onClick={() => setStatus({ stage: 'reviewing', loading: false, error: null })}
+                 className="text-sm text-red-600 hover:text-red-800 font-medium mb-6"
+               >
+                 ← Back to {customers.length} active contacts
+               </button>
+             )}
              
              {status.loading ? (
                 <div className="flex flex-col items-center justify-center p-12 bg-white rounded-lg shadow border border-gray-100 max-w-xl mx-auto">
                   <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-600 mb-4"></div>
-                  <p className="text-gray-900 font-medium">Processing Data...</p>
+                  <p className="text-gray-900 font-medium">
+                    {extractProgress && extractProgress.total > 1 ? `Processing Files... ${extractProgress.progress} of ${extractProgress.total} done` : 'Processing Data...'}
+                  </p>
                   <p className="text-gray-500 text-sm mt-2">Analyzing rows, identifying contacts and notes.</p>
                 </div>
              ) : (
                 <FileUpload 
-                  onImageSelected={handleImageSelected} 
+                  onFilesSelected={handleFilesSelected}
                   onTextSelected={handleTextSelected}
                   onCustomersLoaded={handleCustomersLoaded}
                   isAnalyzing={status.loading} 
@@ -235,34 +879,165 @@ function App() {
         {/* Results Section */}
         {status.stage === 'reviewing' && (
           <div className="space-y-6">
+            {importNotice && (
+              <div className="bg-blue-50 border border-blue-200 text-blue-800 text-sm px-4 py-2 rounded flex justify-between items-center">
+                <span>{importNotice}</span>
+                <button onClick={() => setImportNotice(null)} className="text-blue-500 hover:text-blue-700 ml-4" title="Dismiss">✕</button>
+              </div>
+            )}
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 bg-white p-4 rounded-lg border border-gray-200 shadow-sm sticky top-20 z-10">
               <div>
                 <h2 className="text-lg font-bold text-gray-900">Active Contacts ({customers.length})</h2>
                 <p className="text-sm text-gray-500">Review the data, generate drafts, and save to archive.</p>
+                {blockedCount > 0 && (
+                  <p className="text-xs text-red-600 mt-1">{blockedCount} contact{blockedCount === 1 ? ' has' : 's have'} data errors and will be skipped by Generate All until fixed.</p>
+                )}
               </div>
               <div className="flex gap-3">
+                <button 
+                  onClick={() => setStatus({ stage: 'idle', loading: false, error: null })}
+                  className="text-gray-600 hover:text-gray-900 text-sm font-medium px-4 py-2"
+                >
+                  + Import More
+                </button>
+                {visibleSourceFiles.length > 0 && (
+                  <button
+                    onClick={() => setShowSourceReview(!showSourceReview)}
+                    className="text-gray-600 hover:text-gray-900 text-sm font-medium px-4 py-2"
+                    title="Compare extracted rows with the uploaded images"
+                  >
+                    Check Source
+                  </button>
+                )}
+                <ContactExportMenu customers={customers} source={activeCampaign} />
+                <EmailExportMenu
+                  drafts={customers.filter(c => generatedMessages[c.id]).map(c => ({ customer: c, message: generatedMessages[c.id] }))}
+                  sender={senderProfile}
+                  campaignName={activeCampaign.name}
+                />
                 <button 
                   onClick={() => {
-                    setCustomers([]);
-                    setGeneratedMessages({});
+                    updateCampaign(activeCampaign.id, c => ({
+                      ...c,
+                      customers: [],
+                      generatedMessages: {},
+                      // Pipelines held for restored leads go with them; archived leads keep their follow-ups
+                      heldPipelines: {},
+                      followUps: Object.fromEntries(Object.entries(c.followUps || {}).filter(([id]) => c.savedItems.some(i => i.customer.id === id)))
+                    }));
+                    setImportNotice(null);
+                    setSourceFiles({ campaignId: '', files: [] });
                     setStatus({ stage: 'idle', loading: false, error: null });
                   }}
                   className="text-gray-600 hover:text-gray-900 text-sm font-medium px-4 py-2"
                 >
                   Start Over
                 </button>
+                <select
+                  value={bulkLanguage}
+                  onChange={(e) => setBulkLanguage(e.target.value as DraftLanguage | 'auto')}
+                  className="text-sm border-gray-300 rounded-lg focus:ring-red-500 focus:border-red-500"
+                  title="Language for Generate All"
+                >
+                  <option value="auto">Language by country</option>
+                  {LANGUAGES.map(l => (
+                    <option key={l.code} value={l.code}>All in {l.label}</option>
+                  ))}
+                </select>
                 <button 
                   onClick={handleGenerateAll}
-                  className="bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-700 shadow-sm flex items-center gap-2"
+                  disabled={!!bulkStatus?.isGenerating}
+                  className="bg-red-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-50 shadow-sm flex items-center gap-2"
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-4 h-4">
                     <path strokeLinecap="round" strokeLinejoin="round" d="M9.813 15.904L9 18.75l-.813-2.846a4.5 4.5 0 00-3.09-3.09L2.25 12l2.846-.813a4.5 4.5 0 003.09-3.09L9 5.25l.813 2.846a4.5 4.5 0 003.09 3.09L15.75 12l-2.846.813a4.5 4.5 0 00-3.09 3.09zM18.259 8.715L18 9.75l-.259-1.035a3.375 3.375 0 00-2.455-2.456L14.25 6l1.036-.259a3.375 3.375 0 002.455-2.456L18 2.25l.259 1.035a3.375 3.375 0 002.456 2.456L21.75 6l-1.035.259a3.375 3.375 0 00-2.456 2.456zM16.894 20.567L16.5 21.75l-.394-1.183a2.25 2.25 0 00-1.423-1.423L13.5 18.75l1.183-.394a2.25 2.25 0 001.423-1.423l.394-1.183.394 1.183a2.25 2.25 0 001.423 1.423l1.183.394-1.183.394a2.25 2.25 0 00-1.423 1.423z" />
                   </svg>
-                  Generate All (English)
+                  Generate All
+                </button>
+                <button
+                  onClick={handleSendAll}
+                  disabled={!!sendStatus?.isGenerating || !customers.some(c => c.email && generatedMessages[c.id])}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 disabled:opacity-50 shadow-sm"
+                  title={`Send unsent email drafts via ${settings.smtp.host}:${settings.smtp.port}`}
+                >
+                  Send All
+                </button>
+                <button
+                  onClick={() => setShowWhatsappSession(true)}
+                  disabled={showWhatsappSession || !customers.some(c => generatedMessages[c.id])}
+                  className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50 shadow-sm"
+                  title="Work through the WhatsApp drafts one lead at a time"
+                >
+                  WhatsApp Session
                 </button>
               </div>
             </div>
 
+            {bulkStatus && (
+              <GenerationProgress
+                status={bulkStatus}
+                onPause={() => queueRef.current?.pause()}
+                onResume={() => queueRef.current?.resume()}
+                onCancel={() => queueRef.current?.cancel()}
+                onDismiss={() => setBulkStatus(null)}
+                failures={bulkFailures.map(c => ({ label: c.company || c.representative || 'Unknown Company', kind: draftErrors[c.id].kind, message: draftErrors[c.id].message }))}
+                onRetryFailed={() => runBulk(bulkFailures)}
+              />
+            )}
+
+            {showSourceReview && visibleSourceFiles.length > 0 && (
+              <SourceReview
+                key={activeCampaign.id}
+                files={visibleSourceFiles}
+                customers={customers}
+                onUpdate={handleUpdateCustomer}
+                onClose={() => setShowSourceReview(false)}
+              />
+            )}
+
+            {showWhatsappSession && (
+              <WhatsappSession
+                key={activeCampaign.id}
+                leads={customers.filter(c => generatedMessages[c.id]).map(c => ({ customer: c, message: generatedMessages[c.id] }))}
+                log={activeCampaign.whatsappLog || {}}
+                onRecord={handleRecordWhatsapp}
+                onClose={() => setShowWhatsappSession(false)}
+              />
+            )}
+
+            {sendStatus && (
+              <GenerationProgress
+                action="send"
+                status={sendStatus}
+                onPause={() => sendQueueRef.current?.pause()}
+                onResume={() => sendQueueRef.current?.resume()}
+                onCancel={() => sendQueueRef.current?.cancel()}
+                onDismiss={() => setSendStatus(null)}
+                failures={sendFailures.map(c => {
+                  // Grouped by the server's answer, so one bad address doesn't hide a login problem
+                  const message = lastSend(activeCampaign.sendLog?.[c.id])?.response || 'Send failed';
+                  return { label: c.company || c.representative || 'Unknown Company', kind: message, message };
+                })}
+                onRetryFailed={() => runSendQueue(sendFailures)}
+              />
+            )}
+
+            <DuplicateReview
+              matches={visibleDuplicates}
+              onResolve={handleResolveDuplicate}
+              onResolveAll={handleResolveAllDuplicates}
+            />
+
+            <FollowUpQueue
+              due={dueFollowUps}
+              followUps={activeCampaign.followUps || {}}
+              generatingKeys={analyzingIds}
+              errors={followUpErrors}
+              onGenerate={handleGenerateFollowUp}
+              onDone={handleFollowUpDone}
+              onSkip={handleFollowUpSkip}
+            />
+
             <div className="grid grid-cols-1 gap-6">
               {customers.length === 0 && savedItems.length === 0 ? (
                 <div className="text-center text-gray-500 py-12">No contacts loaded.</div>
@@ -275,14 +1050,38 @@ function App() {
                   onGenerate={handleGenerateDraft}
                   onDelete={handleDelete}
                   onSave={handleSave}
+                  onUpdate={handleUpdateCustomer}
+                  onUpdateMessage={handleUpdateMessage}
+                  templates={settings.templates}
                   generatedMessage={generatedMessages[customer.id]}
                   isGenerating={analyzingIds.has(customer.id)}
+                  error={draftErrors[customer.id]}
+                  sendLog={activeCampaign.sendLog?.[customer.id]}
+                  whatsappLog={activeCampaign.whatsappLog?.[customer.id]}
+                  isSending={sendingIds.has(customer.id)}
+                  onSendEmail={handleSendEmail}
                 />
               ))}
             </div>
 
             {/* Saved Items Table */}
-            <SavedTable items={savedItems} onDelete={handleDeleteSaved} />
+            <SavedTable
+              items={savedItems}
+              source={activeCampaign}
+              sender={senderProfile}
+              onDelete={handleDeleteSaved}
+              onStatusChange={handleStatusChange}
+              onRestore={handleRestoreSaved}
+              generatingIds={analyzingIds}
+              replyErrors={replyErrors}
+              onAddReply={handleAddReply}
+              onSuggestReply={handleSuggestReply}
+              onUpdateSuggestion={handleUpdateSuggestion}
+              onMarkReplySent={handleMarkReplySent}
+              sendLog={activeCampaign.sendLog || {}}
+              sendingIds={sendingIds}
+              onSendEmail={handleSendEmail}
+            />
           </div>
         )}
       </main>
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Campaign } from '../types';
+
+interface CampaignSwitcherProps {
+  campaigns: Campaign[];
+  activeCampaignId: string;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onDuplicate: () => void;
+  onArchive: (id: string, archived: boolean) => void;
+}
+
+export const CampaignSwitcher: React.FC<CampaignSwitcherProps> = ({
+  campaigns,
+  activeCampaignId,
+  onSelect,
+  onCreate,
+  onDuplicate,
+  onArchive
+}) => {
+  const [showArchived, setShowArchived] = useState(false);
+
+  const openCampaigns = campaigns.filter(c => !c.archived);
+  const archivedCampaigns = campaigns.filter(c => c.archived);
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+        <select
+          value={activeCampaignId}
+          onChange={(e) => onSelect(e.target.value)}
+          className="flex-1 text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+        >
+          {openCampaigns.map(c => (
+            <option key={c.id} value={c.id}>
+              {c.name} ({c.customers.length} active, {c.savedItems.length} archived)
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <button
+            onClick={onCreate}
+            className="text-xs bg-red-600 text-white px-3 py-1.5 rounded-md hover:bg-red-700 font-medium"
+          >
+            + New
+          </button>
+          <button
+            onClick={onDuplicate}
+            className="text-xs bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200 font-medium"
+            title="Start a new campaign with the same settings"
+          >
+            Duplicate
+          </button>
+          <button
+            onClick={() => onArchive(activeCampaignId, true)}
+            disabled={openCampaigns.length <= 1}
+            className="text-xs bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200 disabled:opacity-50 font-medium"
+            title={openCampaigns.length <= 1 ? "Create another campaign before archiving this one" : "Archive this campaign"}
+          >
+            Archive
+          </button>
+        </div>
+      </div>
+
+      {archivedCampaigns.length > 0 && (
+        <div className="mt-2">
+          <button
+            onClick={() => setShowArchived(prev => !prev)}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            {showArchived ? 'Hide' : 'Show'} archived campaigns ({archivedCampaigns.length})
+          </button>
+          {showArchived && (
+            <ul className="mt-2 space-y-1">
+              {archivedCampaigns.map(c => (
+                <li key={c.id} className="flex items-center justify-between text-sm text-gray-600 bg-gray-50 px-3 py-1.5 rounded">
+                  <span>{c.name} <span className="text-xs text-gray-400">({c.savedItems.length} archived leads)</span></span>
+                  <button
+                    onClick={() => onArchive(c.id, false)}
+                    className="text-xs text-red-600 hover:underline"
+                  >
+                    Unarchive
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
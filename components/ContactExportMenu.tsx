@@ -0,0 +1,45 @@
+import React, { useState } from 'react';
+import { Customer } from '../types';
+import { ContactSource, CRM_LAYOUTS, downloadCrmCsv, downloadVCards } from '../services/contactExportService';
+
+interface ContactExportMenuProps {
+  customers: Customer[];
+  source: ContactSource;
+}
+
+export const ContactExportMenu: React.FC<ContactExportMenuProps> = ({ customers, source }) => {
+  const [open, setOpen] = useState(false);
+
+  const run = (action: () => void) => {
+    action();
+    setOpen(false);
+  };
+
+  const itemClass = "block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={customers.length === 0}
+        className="text-sm text-gray-600 hover:text-gray-900 font-medium px-4 py-2 disabled:opacity-50"
+      >
+        Contacts ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-60 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+          <p className="px-4 pt-1 pb-1 text-[10px] font-semibold text-gray-400 uppercase tracking-wide">Address book ({customers.length})</p>
+          <button onClick={() => run(() => downloadVCards(customers, source, '3.0', false))} className={itemClass}>vCard 3.0, one file</button>
+          <button onClick={() => run(() => downloadVCards(customers, source, '4.0', false))} className={itemClass}>vCard 4.0, one file</button>
+          <button onClick={() => run(() => downloadVCards(customers, source, '3.0', true))} className={itemClass}>vCard 3.0, one file per contact</button>
+          <p className="px-4 pt-2 pb-1 text-[10px] font-semibold text-gray-400 uppercase tracking-wide border-t border-gray-100 mt-1">CRM import (CSV)</p>
+          {CRM_LAYOUTS.map(layout => (
+            <button key={layout.id} onClick={() => run(() => downloadCrmCsv(customers, source, layout.id))} className={itemClass}>
+              {layout.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { SavedItem, TemplateChannel } from '../types';
+import { pendingSuggestion } from '../services/threadService';
+import { normalizePhone, splitPhoneNumbers, whatsappDigits } from '../services/phoneService';
+import { getLanguage, textDirection } from '../services/languageService';
+import { LLMError } from '../services/llmError';
+import { LLMErrorBanner } from './LLMErrorBanner';
+
+interface ConversationThreadProps {
+  item: SavedItem;
+  isGenerating: boolean;
+  error?: LLMError; // Why the last suggested answer failed
+  onAddReply: (channel: TemplateChannel, body: string) => void;
+  onSuggest: () => void;
+  onUpdateSuggestion: (body: string) => void;
+  onMarkSent: () => void;
+}
+
+export const ConversationThread: React.FC<ConversationThreadProps> = ({ item, isGenerating, error, onAddReply, onSuggest, onUpdateSuggestion, onMarkSent }) => {
+  const { customer, message } = item;
+  const [channel, setChannel] = useState<TemplateChannel>(message.type);
+  const [replyText, setReplyText] = useState('');
+
+  const thread = (item.thread || []).filter(m => !m.suggested);
+  const suggestion = pendingSuggestion(item);
+  const phone = splitPhoneNumbers(customer.phone).map(p => normalizePhone(p, customer.country)).find(p => p.e164);
+
+  const sendLink = !suggestion
+    ? null
+    : suggestion.channel === 'email'
+      ? customer.email && `mailto:${customer.email}?subject=${encodeURIComponent(suggestion.subject || '')}&body=${encodeURIComponent(suggestion.body)}`
+      : phone && `https://wa.me/${whatsappDigits(phone)}?text=${encodeURIComponent(suggestion.body)}`;
+
+  const handleAdd = () => {
+    if (!replyText.trim()) return;
+    onAddReply(channel, replyText);
+    setReplyText('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2 max-h-80 overflow-y-auto">
+        <div className="flex justify-end">
+          <div className="max-w-[80%] rounded-lg px-3 py-2 text-sm bg-blue-50 border border-blue-100 text-gray-700 whitespace-pre-wrap" dir={textDirection(message.language, message.body)}>
+            <span className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">First message</span>
+            {message.subject && <strong className="block text-gray-900">{message.subject}</strong>}
+            <span className="line-clamp-3">{message.body}</span>
+          </div>
+        </div>
+        {thread.map(m => (
+          <div key={m.id} className={`flex ${m.direction === 'inbound' ? 'justify-start' : 'justify-end'}`}>
+            <div
+              className={`max-w-[80%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap border ${
+                m.direction === 'inbound' ? 'bg-white border-gray-200 text-gray-800' : 'bg-blue-50 border-blue-100 text-gray-700'
+              }`}
+              dir={textDirection(m.language, m.body)}
+            >
+              <span className="block text-[10px] uppercase tracking-wider text-gray-400 mb-1">
+                {m.direction === 'inbound' ? customer.representative || 'Customer' : 'You'} · {m.channel === 'email' ? 'Email' : 'WhatsApp'} · {new Date(m.createdAt).toLocaleString()}
+                {m.direction === 'inbound' && m.language && ` · ${getLanguage(m.language).label}`}
+              </span>
+              {m.body}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {error && !isGenerating && (
+        <LLMErrorBanner
+          title="Suggested answer failed"
+          error={error}
+          previousNote={suggestion ? 'The suggestion below is the previous version.' : undefined}
+          onRetry={onSuggest}
+        />
+      )}
+
+      {suggestion && (
+        <div className="border border-green-200 bg-green-50 rounded-lg p-3">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-semibold text-green-800">
+              Suggested {suggestion.channel === 'email' ? 'email' : 'WhatsApp'} answer ({getLanguage(suggestion.language).label})
+            </span>
+            <button onClick={onSuggest} disabled={isGenerating} className="text-xs text-gray-600 hover:text-gray-900 disabled:opacity-50">
+              {isGenerating ? 'Drafting...' : '↻ Regenerate'}
+            </button>
+          </div>
+          {suggestion.subject && <p className="text-xs text-gray-700 mb-1"><strong>Subject:</strong> {suggestion.subject}</p>}
+          <textarea
+            value={suggestion.body}
+            onChange={(e) => onUpdateSuggestion(e.target.value)}
+            rows={6}
+            dir={textDirection(suggestion.language, suggestion.body)}
+            className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+          />
+          <div className="flex justify-end gap-2 mt-2">
+            {sendLink && (
+              <a
+                href={sendLink}
+                target="_blank"
+                rel="noreferrer"
+                className="text-xs bg-blue-600 text-white px-3 py-1.5 rounded-md hover:bg-blue-700 font-medium"
+              >
+                {suggestion.channel === 'email' ? 'Open Mail' : 'Open WhatsApp'}
+              </a>
+            )}
+            <button
+              onClick={onMarkSent}
+              className="text-xs bg-gray-900 text-white px-3 py-1.5 rounded-md hover:bg-gray-800 font-medium"
+            >
+              Mark Sent
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <textarea
+          value={replyText}
+          onChange={(e) => setReplyText(e.target.value)}
+          rows={3}
+          className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+          placeholder={`Paste ${customer.representative || 'the customer'}'s reply here...`}
+        />
+        <div className="flex items-center justify-end gap-2">
+          <select
+            value={channel}
+            onChange={(e) => setChannel(e.target.value as TemplateChannel)}
+            className="text-xs border-gray-300 rounded-md py-1 focus:ring-red-500 focus:border-red-500"
+          >
+            <option value="email">Replied by email</option>
+            <option value="whatsapp">Replied on WhatsApp</option>
+          </select>
+          {!suggestion && thread.some(m => m.direction === 'inbound') && (
+            <button
+              onClick={onSuggest}
+              disabled={isGenerating}
+              className="text-xs bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200 disabled:opacity-50 font-medium"
+            >
+              {isGenerating ? 'Drafting...' : 'Suggest Answer'}
+            </button>
+          )}
+          <button
+            onClick={handleAdd}
+            disabled={!replyText.trim() || isGenerating}
+            className="text-xs bg-red-600 text-white px-3 py-1.5 rounded-md hover:bg-red-700 disabled:opacity-50 font-medium"
+          >
+            Add Reply & Suggest Answer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,35 @@
 import React, { useState, useMemo } from 'react';
-import { Customer, GeneratedMessage } from '../types';
+import { Customer, CustomerField, DraftLanguage, DraftRevision, GeneratedMessage, MessageTemplate, SendLogEntry, WhatsappLogEntry } from '../types';
+import { normalizePhone, splitPhoneNumbers, PhoneCheck } from '../services/phoneService';
+import { validateCustomer, applyAllFixes } from '../services/validationService';
+import { applyCustomerEdits, confirmCustomerField, isLowConfidence, lowConfidenceFields, originalFieldValue, sourceLabel } from '../services/customerService';
+import { QualityIssues } from './QualityIssues';
+import { EditableField } from './EditableField';
+import { DraftHistory } from './DraftHistory';
+import { TemplatePicker } from './TemplatePicker';
+import { applyDraftEdit, DraftText, restoreRevision, revisionsOf } from '../services/draftService';
+import { getLanguage, languageForCountry, LANGUAGES, textDirection } from '../services/languageService';
+import { LLMError } from '../services/llmError';
+import { LLMErrorBanner } from './LLMErrorBanner';
+import { lastSend } from '../services/smtpService';
+import { lastOutcome, outcomeInfo, whatsappLink, WhatsappLinkType, whatsappText } from '../services/whatsappService';
+import { SendLog } from './SendLog';
 
 interface CustomerCardProps {
   customer: Customer;
-  onGenerate: (customer: Customer, lang: 'en' | 'ar') => void;
+  onGenerate: (customer: Customer, lang: DraftLanguage) => void;
   onDelete: (id: string) => void;
   onSave: (id: string) => void;
+  onUpdate: (customer: Customer) => void;
+  onUpdateMessage: (customerId: string, message: GeneratedMessage) => void;
   generatedMessage?: GeneratedMessage;
   isGenerating: boolean;
+  error?: LLMError; // Why the last generation attempt failed
+  templates: MessageTemplate[];
+  sendLog?: SendLogEntry[];
+  whatsappLog?: WhatsappLogEntry[];
+  isSending: boolean;
+  onSendEmail: (id: string) => void;
 }
 
 export const CustomerCard: React.FC<CustomerCardProps> = ({ 
@@ -15,21 +37,49 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
   onGenerate,
   onDelete,
   onSave,
+  onUpdate,
+  onUpdateMessage,
   generatedMessage,
-  isGenerating 
+  isGenerating,
+  error,
+  templates,
+  sendLog,
+  whatsappLog,
+  isSending,
+  onSendEmail
 }) => {
   const [activeTab, setActiveTab] = useState<'email' | 'whatsapp'>('email');
-  const [selectedLang, setSelectedLang] = useState<'en' | 'ar'>('en');
+  const [chosenLang, setChosenLang] = useState<DraftLanguage | null>(null);
   const [copied, setCopied] = useState(false);
+  const [showIssues, setShowIssues] = useState(false);
+  const [draftEdit, setDraftEdit] = useState<DraftText | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showSendLog, setShowSendLog] = useState(false);
 
-  // Extract multiple phone numbers from the string
-  const phoneNumbers = useMemo(() => {
-    const raw = customer.phone || '';
-    if (!raw) return [];
-    // Split by comma, slash, ampersand, newline, or pipe
-    const splits = raw.split(/[,/&\n|]+/).map(s => s.trim()).filter(s => s.length > 3);
-    return splits;
-  }, [customer.phone]);
+  const issues = useMemo(() => validateCustomer(customer), [customer]);
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+  const uncheckedCount = lowConfidenceFields(customer).length;
+  const suggestedLang = languageForCountry(customer.country);
+  const lastEmail = lastSend(sendLog);
+  const lastWhatsapp = lastOutcome(whatsappLog);
+
+  // An explicit choice wins, then the language of the current draft, then the lead's country
+  const selectedLang = chosenLang ?? generatedMessage?.language ?? suggestedLang;
+
+  // Shared wiring for every inline-editable field: edits are tracked, doubtful values highlighted
+  const editProps = (field: CustomerField) => ({
+    value: customer[field],
+    onSave: (value: string) => onUpdate(applyCustomerEdits(customer, { [field]: value })),
+    lowConfidence: isLowConfidence(customer, field),
+    onConfirm: () => onUpdate(confirmCustomerField(customer, field)),
+    originalValue: originalFieldValue(customer, field),
+  });
+
+  // Extract multiple phone numbers from the string and normalize each against the lead's country
+  const phoneChecks = useMemo(() => {
+    return splitPhoneNumbers(customer.phone || '').map(p => normalizePhone(p, customer.country));
+  }, [customer.phone, customer.country]);
 
   // Helper to construct mailto link
   const getMailtoLink = () => {
@@ -39,37 +89,10 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
     return `mailto:${customer.email}?subject=${subject}&body=${body}`;
   };
 
-  // Helper for WhatsApp link - Now accepts specific phone number string
-  const getWhatsappLink = (phone: string, type: 'web' | 'app' | 'business') => {
-    if (!generatedMessage || !phone) return '#';
-    
-    let cleanPhone = phone.replace(/[^0-9+]/g, '');
-
-    // Auto-add + if missing
-    if (cleanPhone.startsWith('00')) {
-        cleanPhone = '+' + cleanPhone.substring(2);
-    } else if (!cleanPhone.startsWith('+')) {
-        cleanPhone = '+' + cleanPhone;
-    }
-
-    // Final clean for URL injection (strip + for consistency in protocols that dislike it)
-    const phoneForUrl = cleanPhone.replace('+', '');
-
-    const bodyToUse = generatedMessage.whatsappBody || generatedMessage.body;
-    const text = encodeURIComponent(bodyToUse);
-    
-    switch (type) {
-      case 'business':
-        // Android intent to force WhatsApp Business
-        return `intent://send?phone=${phoneForUrl}&text=${text}#Intent;package=com.whatsapp.w4b;scheme=whatsapp;end`;
-      case 'app':
-        // Standard App scheme
-        return `whatsapp://send?phone=${phoneForUrl}&text=${text}`;
-      case 'web':
-      default:
-        // Universal link (usually handled by browser/OS preference)
-        return `https://wa.me/${phoneForUrl}?text=${text}`;
-    }
+  // WhatsApp links use the E.164 form of a validated number
+  const getWhatsappLink = (phone: PhoneCheck, type: WhatsappLinkType) => {
+    if (!generatedMessage) return '#';
+    return whatsappLink(phone, whatsappText(generatedMessage), type);
   };
 
   const handleCopy = async () => {
@@ -91,15 +114,48 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
     }
   };
 
-  const handleLangSwitch = (lang: 'en' | 'ar') => {
+  const handleSaveDraftEdit = () => {
+    if (generatedMessage && draftEdit) {
+      onUpdateMessage(customer.id, applyDraftEdit(generatedMessage, draftEdit));
+    }
+    setDraftEdit(null);
+  };
+
+  const handleRestoreRevision = (revision: DraftRevision) => {
+    if (!generatedMessage) return;
+    onUpdateMessage(customer.id, restoreRevision(generatedMessage, revision));
+    if (revision.language) setChosenLang(revision.language);
+  };
+
+  // Drafting from broken or unchecked data wastes a generation, so ask first.
+  // Returns false when the user backs out.
+  const handleGenerate = (lang: DraftLanguage): boolean => {
+    if (draftEdit) {
+      window.alert('Save or cancel your edits to this draft first.');
+      return false;
+    }
+    if (generatedMessage?.edited && !window.confirm('This draft has your own edits. Generate a new version anyway? Your edited version stays in the revision history.')) {
+      return false;
+    }
+    const problems = [
+      errorCount > 0 ? `${errorCount} data problem${errorCount === 1 ? '' : 's'}` : '',
+      uncheckedCount > 0 ? `${uncheckedCount} unchecked field${uncheckedCount === 1 ? '' : 's'}` : '',
+    ].filter(Boolean);
+    if (problems.length > 0 && !window.confirm(`${customer.company || 'This contact'} has ${problems.join(' and ')}. Generate the draft anyway?`)) {
+      setShowIssues(true);
+      return false;
+    }
+    onGenerate(customer, lang);
+    return true;
+  };
+
+  const handleLangSwitch = (lang: DraftLanguage) => {
     if (isGenerating || lang === selectedLang) return;
     
-    setSelectedLang(lang);
-    
     // If we already have a message, regenerate immediately in the new language
-    if (generatedMessage) {
-        onGenerate(customer, lang);
-    }
+    if (generatedMessage && !handleGenerate(lang)) return;
+
+    setChosenLang(lang);
   };
 
   return (
@@ -107,37 +163,64 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
       {/* Header */}
       <div className="p-4 border-b border-gray-100 bg-gray-50 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
         <div className="flex-1">
-          <h3 className="font-bold text-gray-900 text-lg">{customer.company || "Unknown Company"}</h3>
-          <p className="text-sm text-gray-600 flex items-center gap-2">
-            <span className="font-medium">{customer.representative || "No Rep Name"}</span>
-            {customer.country && <span className="bg-gray-200 text-gray-600 text-xs px-2 py-0.5 rounded-full">{customer.country}</span>}
+          <h3 className="font-bold text-gray-900 text-lg">
+            <EditableField {...editProps('company')} placeholder="Unknown Company" />
+          </h3>
+          <p className="text-sm text-gray-600 flex flex-wrap items-center gap-2">
+            <EditableField {...editProps('representative')} placeholder="No Rep Name" className="font-medium" />
+            <EditableField {...editProps('country')} placeholder="Add country" className="text-xs">
+              <span className="bg-gray-200 text-gray-600 text-xs px-2 py-0.5 rounded-full">{customer.country}</span>
+            </EditableField>
+            {customer.source && (
+              <span className="text-xs text-gray-400" title="Where this row was extracted from">📄 {sourceLabel(customer.source)}</span>
+            )}
           </p>
         </div>
         
         <div className="flex items-center gap-2">
-            {/* Language Toggle - Always Visible */}
-            <div className="flex bg-white rounded-md border border-gray-300 overflow-hidden">
-                <button 
-                    onClick={() => handleLangSwitch('en')}
-                    disabled={isGenerating}
-                    className={`px-3 py-1.5 text-xs font-medium transition-colors ${selectedLang === 'en' ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:bg-gray-50 disabled:opacity-50'}`}
-                >
-                    🇺🇸 EN
-                </button>
-                <div className="w-px bg-gray-300"></div>
-                <button 
-                    onClick={() => handleLangSwitch('ar')}
-                    disabled={isGenerating}
-                    className={`px-3 py-1.5 text-xs font-medium transition-colors ${selectedLang === 'ar' ? 'bg-gray-100 text-gray-900' : 'text-gray-500 hover:bg-gray-50 disabled:opacity-50'}`}
+            {/* Template Override Toggle */}
+            <button
+                onClick={() => setShowTemplates(prev => !prev)}
+                className={`text-xs font-medium px-2 py-1 rounded-full border ${
+                    customer.templateSelection ? 'bg-blue-50 text-blue-700 border-blue-200' : 'bg-white text-gray-500 border-gray-200 hover:bg-gray-50'
+                }`}
+                title="Choose templates for this contact"
+            >
+                {customer.templateSelection ? 'Custom template' : 'Template'}
+            </button>
+
+            {/* Data Quality Badge */}
+            {issues.length > 0 && (
+                <button
+                    onClick={() => setShowIssues(prev => !prev)}
+                    className={`text-xs font-medium px-2 py-1 rounded-full border ${
+                        errorCount > 0 ? 'bg-red-50 text-red-700 border-red-200' : 'bg-amber-50 text-amber-700 border-amber-200'
+                    }`}
+                    title="Show data quality issues"
                 >
-                    🇪🇬 AR
+                    ⚠ {issues.length} issue{issues.length === 1 ? '' : 's'}
                 </button>
-            </div>
+            )}
+
+            {/* Language Picker - Always Visible, defaults to the lead's country */}
+            <select
+                value={selectedLang}
+                onChange={(e) => handleLangSwitch(e.target.value as DraftLanguage)}
+                disabled={isGenerating}
+                className="text-xs font-medium border-gray-300 rounded-md py-1.5 pl-2 pr-7 bg-white text-gray-900 focus:ring-red-500 focus:border-red-500 disabled:opacity-50"
+                title="Draft language"
+            >
+                {LANGUAGES.map(l => (
+                    <option key={l.code} value={l.code}>
+                        {l.flag} {l.code.toUpperCase()}{l.code === suggestedLang ? ' (auto)' : ''}
+                    </option>
+                ))}
+            </select>
 
             {/* Generate Button - Only if no message exists */}
             {!generatedMessage && (
                 <button
-                    onClick={() => onGenerate(customer, selectedLang)}
+                    onClick={() => handleGenerate(selectedLang)}
                     disabled={isGenerating}
                     className="text-xs bg-red-600 text-white px-4 py-1.5 rounded-md hover:bg-red-700 disabled:opacity-50 transition-colors font-medium"
                 >
@@ -158,17 +241,52 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
         </div>
       </div>
 
+      {showTemplates && (
+        <div className="px-4 py-3 border-b border-gray-100 bg-white">
+          <TemplatePicker
+            templates={templates}
+            selection={customer.templateSelection}
+            onChange={(templateSelection) => onUpdate({ ...customer, templateSelection })}
+            inheritLabel="Campaign default"
+          />
+        </div>
+      )}
+
+      {showIssues && (
+        <QualityIssues
+          issues={issues}
+          onApplyFix={(patch) => onUpdate(applyCustomerEdits(customer, patch))}
+          onApplyAll={() => onUpdate(applyAllFixes(customer))}
+        />
+      )}
+
       <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* Customer Details (Left Side) */}
         <div className="text-sm space-y-3">
-          {customer.phone && (
-            <div className="flex items-start gap-2">
+          <div className="flex items-start gap-2">
               <span className="text-gray-400 w-4 mt-0.5">📞</span>
               <div className="flex flex-col w-full">
-                {phoneNumbers.map((p, i) => (
+                <EditableField {...editProps('phone')} placeholder="Add phone" className="text-gray-900 font-mono font-bold mb-1" />
+                {phoneChecks.map((p, i) => (
                     <div key={i} className="mb-3 last:mb-0 border-b last:border-0 border-gray-100 pb-2 last:pb-0">
-                        <span className="text-gray-900 font-mono font-bold block">{p}</span>
-                        {generatedMessage && (
+                        {phoneChecks.length > 1 && <span className="text-gray-700 font-mono block">{p.raw}</span>}
+                        {p.e164 && p.e164 !== p.raw.replace(/[^0-9+]/g, '') && (
+                            <span className="text-xs text-gray-500 font-mono block">→ {p.e164}</span>
+                        )}
+                        {p.status !== 'valid' && (
+                            <span
+                                className={`inline-block mt-1 text-[10px] font-bold px-2 py-0.5 rounded uppercase tracking-wide ${
+                                    p.status === 'invalid' ? 'bg-red-50 text-red-700 border border-red-200' : 'bg-amber-50 text-amber-700 border border-amber-200'
+                                }`}
+                                title={p.message}
+                            >
+                                {p.status === 'invalid' ? 'Invalid number' : 'Check number'}
+                            </span>
+                        )}
+                        {p.status !== 'valid' && (
+                            <span className="text-xs text-gray-500 block mt-1">{p.message}</span>
+                        )}
+                        {generatedMessage && p.e164 && (
                             <div className="flex flex-wrap gap-1.5 mt-2">
                                 <a 
                                     href={getWhatsappLink(p, 'web')}
@@ -197,37 +315,56 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
                         )}
                     </div>
                 ))}
-                {phoneNumbers.length === 0 && <span className="text-gray-400 italic">No phone numbers</span>}
+                {lastWhatsapp && (
+                  <span
+                    className={`inline-block w-fit text-[10px] font-bold px-2 py-0.5 rounded uppercase tracking-wide ${outcomeInfo(lastWhatsapp.outcome).badge}`}
+                    title={`${lastWhatsapp.phone}, ${new Date(lastWhatsapp.at).toLocaleString()}`}
+                  >
+                    WhatsApp: {outcomeInfo(lastWhatsapp.outcome).label}
+                  </span>
+                )}
               </div>
-            </div>
-          )}
-          {customer.email && (
-            <div className="flex items-start gap-2">
-              <span className="text-gray-400 w-4">✉️</span>
-              <span className="text-gray-700 truncate">{customer.email}</span>
-            </div>
-          )}
-           {customer.website && (
-            <div className="flex items-start gap-2">
-              <span className="text-gray-400 w-4">🌐</span>
+          </div>
+          <div className="flex items-start gap-2">
+            <span className="text-gray-400 w-4">✉️</span>
+            <EditableField {...editProps('email')} placeholder="Add email" className="text-gray-700 truncate" />
+          </div>
+          <div className="flex items-start gap-2">
+            <span className="text-gray-400 w-4">🌐</span>
+            <EditableField {...editProps('website')} placeholder="Add website" className="truncate">
+              <span className="text-blue-600">{customer.website}</span>
+            </EditableField>
+            {customer.website && (
               <a 
                 href={`https://${(customer.website || '').toString().replace('http://', '').replace('https://', '')}`} 
                 target="_blank" 
                 rel="noreferrer" 
-                className="text-blue-600 hover:underline truncate"
+                className="text-gray-400 hover:text-blue-600 text-xs"
+                title="Open website"
               >
-                {customer.website}
+                ↗
               </a>
-            </div>
-          )}
+            )}
+          </div>
           <div className="mt-3 bg-yellow-50 p-2 rounded border border-yellow-100">
             <p className="text-xs font-semibold text-yellow-800 uppercase tracking-wide">Notes (Açıklama)</p>
-            <p className="text-sm text-gray-800 mt-1 italic">"{customer.notes || "No specific notes"}"</p>
+            <div className="text-sm text-gray-800 mt-1 italic whitespace-pre-wrap">
+              <EditableField {...editProps('notes')} placeholder="No specific notes" multiline />
+            </div>
           </div>
         </div>
 
         {/* Generated Message Area (Right Side) */}
         <div className="border-t md:border-t-0 md:border-l border-gray-100 md:pl-4 pt-4 md:pt-0">
+          {error && !isGenerating && (
+            <LLMErrorBanner
+              title="Draft failed"
+              error={error}
+              previousNote={generatedMessage ? 'The draft below is the previous version.' : undefined}
+              onRetry={() => handleGenerate(selectedLang)}
+              className="mb-3"
+            />
+          )}
           {generatedMessage ? (
             <div className="h-full flex flex-col">
               <div className="flex items-center justify-between mb-2">
@@ -245,6 +382,26 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
                     💬 WhatsApp
                   </button>
                 </div>
+                <div className="flex items-center gap-1">
+                {generatedMessage.edited && (
+                  <span className="text-[10px] font-bold px-2 py-0.5 rounded bg-blue-50 text-blue-700 border border-blue-200 uppercase tracking-wide">Edited</span>
+                )}
+                {!draftEdit && (
+                  <button
+                    onClick={() => setDraftEdit({ subject: generatedMessage.subject, body: generatedMessage.body, whatsappBody: generatedMessage.whatsappBody })}
+                    className="text-xs text-gray-500 hover:text-gray-900 transition-colors px-2 py-1 rounded hover:bg-gray-50"
+                    title="Edit this draft"
+                  >
+                    ✎ Edit
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowHistory(prev => !prev)}
+                  className="text-xs text-gray-500 hover:text-gray-900 transition-colors px-2 py-1 rounded hover:bg-gray-50"
+                  title="Compare and restore earlier versions"
+                >
+                  History ({revisionsOf(generatedMessage).length})
+                </button>
                 <button 
                   onClick={handleCopy}
                   className="text-xs flex items-center gap-1 text-gray-500 hover:text-gray-900 transition-colors px-2 py-1 rounded hover:bg-gray-50"
@@ -266,13 +423,61 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
                     </>
                   )}
                 </button>
+                </div>
               </div>
 
+              {showHistory && (
+                <DraftHistory
+                  message={generatedMessage}
+                  onRestore={handleRestoreRevision}
+                  onClose={() => setShowHistory(false)}
+                />
+              )}
+
+              {draftEdit ? (
+                <div className="flex-1 flex flex-col gap-2 mb-3" dir={textDirection(generatedMessage.language, draftEdit.body)}>
+                  <input
+                    value={draftEdit.subject}
+                    onChange={(e) => setDraftEdit({ ...draftEdit, subject: e.target.value })}
+                    className="w-full text-sm font-bold border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+                    placeholder="Subject"
+                  />
+                  <textarea
+                    value={draftEdit.body}
+                    onChange={(e) => setDraftEdit({ ...draftEdit, body: e.target.value })}
+                    rows={8}
+                    className="w-full text-sm font-mono border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+                    placeholder="Email body"
+                  />
+                  <textarea
+                    value={draftEdit.whatsappBody || ''}
+                    onChange={(e) => setDraftEdit({ ...draftEdit, whatsappBody: e.target.value })}
+                    rows={4}
+                    className="w-full text-sm border-green-200 bg-green-50 rounded-md focus:ring-green-500 focus:border-green-500"
+                    placeholder="WhatsApp message (uses the email body when empty)"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setDraftEdit(null)}
+                      className="text-xs text-gray-600 hover:text-gray-900 px-3 py-1.5"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleSaveDraftEdit}
+                      className="text-xs bg-red-600 text-white px-3 py-1.5 rounded-md hover:bg-red-700 font-medium"
+                    >
+                      Save Edits
+                    </button>
+                  </div>
+                </div>
+              ) : (
+
               <div 
                 className={`flex-1 rounded p-3 text-sm text-gray-700 overflow-y-auto max-h-48 border mb-3 ${
                   activeTab === 'whatsapp' ? 'bg-[#e5ddd5] border-green-200' : 'bg-gray-50 border-gray-200 font-mono'
                 }`}
-                dir={generatedMessage.body.match(/[\u0600-\u06FF]/) ? 'rtl' : 'ltr'}
+                dir={textDirection(generatedMessage.language, generatedMessage.body)}
               >
                 {activeTab === 'email' ? (
                     <>
@@ -290,15 +495,29 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
                     </div>
                 )}
               </div>
+              )}
 
               <div className="flex gap-2 mt-auto">
                 {activeTab === 'email' ? (
+                  <>
                    <a 
                     href={getMailtoLink()}
-                    className="flex-1 bg-blue-600 text-white text-center py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors"
+                    aria-disabled={!!draftEdit}
+                    className={`flex-1 bg-blue-600 text-white text-center py-2 rounded-md text-sm font-medium hover:bg-blue-700 transition-colors ${draftEdit ? 'opacity-50 pointer-events-none' : ''}`}
                   >
                     Open Mail
                   </a>
+                  {customer.email && (
+                    <button
+                      onClick={() => onSendEmail(customer.id)}
+                      disabled={isSending || isGenerating || !!draftEdit}
+                      className="px-3 py-2 bg-blue-50 text-blue-700 border border-blue-200 rounded-md text-sm font-medium hover:bg-blue-100 disabled:opacity-50"
+                      title={draftEdit ? 'Save or cancel your edits first' : 'Send this draft over SMTP'}
+                    >
+                      {isSending ? 'Sending...' : 'Send'}
+                    </button>
+                  )}
+                  </>
                 ) : (
                    <div className="flex-1 flex items-center justify-center text-xs text-gray-500 italic bg-gray-50 rounded border border-gray-200">
                       ← Select phone link on left
@@ -306,9 +525,9 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
                 )}
                 
                 <button
-                  onClick={() => onGenerate(customer, selectedLang)}
+                  onClick={() => handleGenerate(selectedLang)}
                   className="px-3 py-2 bg-gray-100 text-gray-600 rounded-md hover:bg-gray-200"
-                  title={`Regenerate in ${selectedLang === 'en' ? 'English' : 'Arabic'}`}
+                  title={`Regenerate in ${getLanguage(selectedLang).label}`}
                   disabled={isGenerating}
                 >
                   {isGenerating ? '...' : '↻'}
@@ -316,8 +535,9 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
 
                 <button
                   onClick={() => onSave(customer.id)}
-                  className="px-3 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 flex items-center gap-1"
-                  title="Save & Archive to Table"
+                  disabled={!!draftEdit}
+                  className="px-3 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 flex items-center gap-1 disabled:opacity-50"
+                  title={draftEdit ? 'Save or cancel your edits first' : 'Save & Archive to Table'}
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
                     <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 12.75l6 6 9-13.5" />
@@ -325,6 +545,19 @@ export const CustomerCard: React.FC<CustomerCardProps> = ({
                   Save
                 </button>
               </div>
+              {lastEmail && sendLog && (
+                <div className="mt-2">
+                  <button
+                    onClick={() => setShowSendLog(!showSendLog)}
+                    className={`text-xs hover:underline ${lastEmail.result === 'sent' ? 'text-green-700' : 'text-red-600'}`}
+                    title={lastEmail.response}
+                  >
+                    {lastEmail.result === 'sent' ? '✓ Sent' : '✕ Send failed'} {new Date(lastEmail.sentAt).toLocaleString()}
+                    {sendLog.length > 1 && ` · ${sendLog.length} attempts`}
+                  </button>
+                  {showSendLog && <div className="mt-1"><SendLog entries={sendLog} /></div>}
+                </div>
+              )}
             </div>
           ) : (
             <div className="h-full flex items-center justify-center text-gray-400 text-sm italic bg-gray-50 rounded border border-dashed border-gray-200">
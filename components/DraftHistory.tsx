@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { DraftRevision, GeneratedMessage } from '../types';
+import { currentRevisionId, revisionsOf } from '../services/draftService';
+import { textDirection } from '../services/languageService';
+
+interface DraftHistoryProps {
+  message: GeneratedMessage;
+  onRestore: (revision: DraftRevision) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => {
+  if (!timestamp) return 'Earlier';
+  return new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+const RevisionText: React.FC<{ title: string; revision: DraftRevision }> = ({ title, revision }) => (
+  <div className="min-w-0">
+    <p className="text-[10px] font-semibold text-gray-500 uppercase tracking-wide mb-1">{title}</p>
+    <div className="bg-gray-50 border border-gray-200 rounded p-2 text-xs text-gray-700 max-h-64 overflow-y-auto" dir={textDirection(revision.language, revision.body)}>
+      <strong className="block text-gray-900 mb-1">{revision.subject}</strong>
+      <div className="whitespace-pre-wrap">{revision.body}</div>
+      {revision.whatsappBody && (
+        <div className="whitespace-pre-wrap mt-2 pt-2 border-t border-gray-200 text-green-800">{revision.whatsappBody}</div>
+      )}
+    </div>
+  </div>
+);
+
+export const DraftHistory: React.FC<DraftHistoryProps> = ({ message, onRestore, onClose }) => {
+  const revisions = revisionsOf(message);
+  const currentId = currentRevisionId(message);
+  const current = revisions.find(r => r.id === currentId) || revisions[revisions.length - 1];
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = revisions.find(r => r.id === selectedId);
+
+  return (
+    <div className="border border-gray-200 rounded-md p-3 mb-3 bg-white">
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-xs font-semibold text-gray-700 uppercase tracking-wide">Revisions ({revisions.length})</p>
+        <button onClick={onClose} className="text-xs text-gray-500 hover:text-gray-900">Close</button>
+      </div>
+
+      <ul className="space-y-1 mb-3 max-h-32 overflow-y-auto">
+        {revisions.map((revision, index) => ({ revision, number: index + 1 })).reverse().map(({ revision, number }) => (
+          <li key={revision.id}>
+            <button
+              onClick={() => setSelectedId(revision.id === selectedId ? null : revision.id)}
+              className={`w-full text-left text-xs px-2 py-1 rounded flex items-center gap-2 ${
+                revision.id === selectedId ? 'bg-red-50 text-red-800' : 'hover:bg-gray-50 text-gray-700'
+              }`}
+            >
+              <span className="font-mono text-gray-400">v{number}</span>
+              <span className={revision.source === 'edited' ? 'text-blue-700' : 'text-gray-700'}>
+                {revision.source === 'edited' ? 'Edited' : 'Generated'}
+              </span>
+              {revision.language && <span className="uppercase text-gray-400">{revision.language}</span>}
+              <span className="text-gray-400 ml-auto">{formatTime(revision.createdAt)}</span>
+              {revision.id === currentId && <span className="text-green-700 font-medium">current</span>}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && selected.id !== currentId && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <RevisionText title="Selected" revision={selected} />
+            <RevisionText title="Current" revision={current} />
+          </div>
+          <div className="flex justify-end mt-2">
+            <button
+              onClick={() => { onRestore(selected); setSelectedId(null); }}
+              className="text-xs bg-gray-900 text-white px-3 py-1.5 rounded-md hover:bg-gray-800 font-medium"
+            >
+              Restore this version
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React from 'react';
+import { DuplicateMatch, mergeCustomers } from '../services/duplicateService';
+import { CUSTOMER_FIELDS } from '../services/customerService';
+
+export type DuplicateResolution = 'merge' | 'keepBoth' | 'skip';
+
+interface DuplicateReviewProps {
+  matches: DuplicateMatch[];
+  onResolve: (match: DuplicateMatch, resolution: DuplicateResolution) => void;
+  onResolveAll: (resolution: DuplicateResolution) => void;
+}
+
+const SOURCE_LABELS: Record<DuplicateMatch['source'], string> = {
+  active: 'Active list',
+  archived: 'Archive',
+  import: 'Same import',
+};
+
+export const DuplicateReview: React.FC<DuplicateReviewProps> = ({ matches, onResolve, onResolveAll }) => {
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-amber-300 overflow-hidden">
+      <div className="p-4 border-b border-amber-200 bg-amber-50 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">Possible Duplicates ({matches.length})</h2>
+          <p className="text-sm text-gray-600">These imported rows look like contacts you already have.</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onResolveAll('skip')}
+            className="text-xs bg-white border border-gray-300 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-50 font-medium"
+          >
+            Skip All
+          </button>
+          <button
+            onClick={() => onResolveAll('merge')}
+            className="text-xs bg-amber-600 text-white px-3 py-1.5 rounded-md hover:bg-amber-700 font-medium"
+          >
+            Merge All
+          </button>
+        </div>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {matches.map(match => {
+          const merged = mergeCustomers(match.existing, match.incoming);
+          return (
+            <div key={match.incoming.id} className="p-4">
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <span className="font-bold text-gray-900">{match.existing.company || match.incoming.company || 'Unknown Company'}</span>
+                <span className="text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">{SOURCE_LABELS[match.source]}</span>
+                {match.reasons.map(reason => (
+                  <span key={reason} className="text-xs bg-amber-100 text-amber-800 px-2 py-0.5 rounded-full">same {reason}</span>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500 uppercase tracking-wider">
+                      <th className="py-1 pr-3 font-medium w-28"></th>
+                      <th className="py-1 pr-3 font-medium">Existing</th>
+                      <th className="py-1 pr-3 font-medium">Imported</th>
+                      <th className="py-1 font-medium">After Merge</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {CUSTOMER_FIELDS.map(field => (
+                      <tr key={field.key} className="align-top">
+                        <td className="py-1 pr-3 text-gray-500">{field.label}</td>
+                        <td className="py-1 pr-3 text-gray-800 whitespace-pre-wrap">{match.existing[field.key]}</td>
+                        <td className="py-1 pr-3 text-gray-800 whitespace-pre-wrap">{match.incoming[field.key]}</td>
+                        <td className={`py-1 whitespace-pre-wrap ${merged[field.key] !== match.existing[field.key] ? 'text-green-700 font-medium' : 'text-gray-800'}`}>
+                          {merged[field.key]}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="flex justify-end gap-2 mt-3">
+                <button
+                  onClick={() => onResolve(match, 'skip')}
+                  className="text-xs text-gray-600 hover:text-gray-900 px-3 py-1.5"
+                >
+                  Skip Import
+                </button>
+                <button
+                  onClick={() => onResolve(match, 'keepBoth')}
+                  className="text-xs bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200 font-medium"
+                >
+                  Keep Both
+                </button>
+                <button
+                  onClick={() => onResolve(match, 'merge')}
+                  className="text-xs bg-amber-600 text-white px-3 py-1.5 rounded-md hover:bg-amber-700 font-medium"
+                >
+                  Merge
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
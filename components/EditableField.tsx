@@ -0,0 +1,112 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+interface EditableFieldProps {
+  value: string;
+  onSave: (value: string) => void;
+  placeholder?: string;
+  multiline?: boolean;
+  lowConfidence?: boolean;
+  onConfirm?: () => void;
+  originalValue?: string; // Set when the value was edited by hand
+  className?: string;
+  children?: React.ReactNode; // Custom read-only rendering, defaults to the plain value
+}
+
+export const EditableField: React.FC<EditableFieldProps> = ({
+  value,
+  onSave,
+  placeholder = 'Add',
+  multiline = false,
+  lowConfidence = false,
+  onConfirm,
+  originalValue,
+  className = '',
+  children,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!isEditing) setDraft(value);
+  }, [value, isEditing]);
+
+  useEffect(() => {
+    if (isEditing) inputRef.current?.focus();
+  }, [isEditing]);
+
+  const commit = () => {
+    setIsEditing(false);
+    const next = multiline ? draft.trim() : draft.replace(/\s+/g, ' ').trim();
+    if (next !== value) onSave(next);
+  };
+
+  const cancel = () => {
+    setIsEditing(false);
+    setDraft(value);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      cancel();
+    } else if (e.key === 'Enter' && (!multiline || e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      commit();
+    }
+  };
+
+  if (isEditing) {
+    const inputClass = 'w-full text-sm text-gray-900 border border-red-300 rounded px-1.5 py-0.5 focus:outline-none focus:ring-1 focus:ring-red-500';
+    return multiline ? (
+      <textarea
+        ref={inputRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        rows={3}
+        className={inputClass}
+      />
+    ) : (
+      <input
+        ref={inputRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        className={inputClass}
+      />
+    );
+  }
+
+  return (
+    <span className={`inline-flex items-start gap-1 max-w-full ${className}`}>
+      <span
+        onClick={() => setIsEditing(true)}
+        className={`cursor-text rounded px-0.5 -mx-0.5 hover:bg-gray-100 min-w-0 ${
+          lowConfidence ? 'bg-amber-100 ring-1 ring-amber-300' : ''
+        }`}
+        title={lowConfidence ? 'Possibly misread. Click to edit.' : 'Click to edit'}
+      >
+        {value ? (children ?? value) : <span className="text-gray-400 italic font-normal">{placeholder}</span>}
+      </span>
+      {lowConfidence && onConfirm && (
+        <button
+          onClick={onConfirm}
+          className="text-[10px] text-amber-700 hover:text-green-700 font-bold px-1"
+          title="Value is correct"
+        >
+          ✓
+        </button>
+      )}
+      {originalValue !== undefined && (
+        <span
+          className="text-[10px] text-gray-400 uppercase tracking-wide font-medium whitespace-nowrap"
+          title={`Originally: ${originalValue || '(empty)'}`}
+        >
+          edited
+        </span>
+      )}
+    </span>
+  );
+};
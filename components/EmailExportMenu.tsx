@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { SenderProfile } from '../types';
+import { downloadEmlZip, downloadMbox, EmailDraft } from '../services/emlService';
+import { fileSafe } from '../services/exportService';
+
+interface EmailExportMenuProps {
+  drafts: EmailDraft[];
+  sender: SenderProfile;
+  campaignName: string;
+}
+
+export const EmailExportMenu: React.FC<EmailExportMenuProps> = ({ drafts, sender, campaignName }) => {
+  const [open, setOpen] = useState(false);
+  const baseName = `${fileSafe(campaignName || 'drafts')}-emails`;
+  const missingEmail = drafts.filter(d => !d.customer.email).length;
+
+  const run = (action: () => void) => {
+    action();
+    setOpen(false);
+  };
+
+  const itemClass = "block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={drafts.length === 0}
+        className="text-sm text-gray-600 hover:text-gray-900 font-medium px-4 py-2 disabled:opacity-50"
+      >
+        Emails ▾
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+          <p className="px-4 pt-1 pb-1 text-[10px] font-semibold text-gray-400 uppercase tracking-wide">Email drafts ({drafts.length})</p>
+          <button onClick={() => run(() => downloadEmlZip(drafts, sender, baseName))} className={itemClass}>
+            .eml files in a zip
+            <span className="block text-xs text-gray-400">Drag into Outlook or Thunderbird drafts</span>
+          </button>
+          <button onClick={() => run(() => downloadMbox(drafts, sender, baseName))} className={itemClass}>
+            Single mbox file
+            <span className="block text-xs text-gray-400">Import with Thunderbird ImportExportTools or Apple Mail</span>
+          </button>
+          {(missingEmail > 0 || !sender.email) && (
+            <p className="px-4 py-2 text-xs text-amber-700 border-t border-gray-100 mt-1">
+              {!sender.email && 'The sender profile has no email, so drafts have no From address. '}
+              {missingEmail > 0 && `${missingEmail} draft${missingEmail === 1 ? ' has' : 's have'} no recipient address.`}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
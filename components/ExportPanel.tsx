@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { SavedItem } from '../types';
+import { DEFAULT_EXPORT_COLUMNS, EXPORT_COLUMNS, ExportFormat, exportLeads } from '../services/exportService';
+
+interface ExportPanelProps {
+  items: SavedItem[];
+  onClose: () => void;
+}
+
+const GROUPS = ['Contact', 'Pipeline', 'Drafts'] as const;
+
+export const ExportPanel: React.FC<ExportPanelProps> = ({ items, onClose }) => {
+  const [columns, setColumns] = useState<string[]>(DEFAULT_EXPORT_COLUMNS);
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+
+  const toggleColumn = (key: string) => {
+    setColumns(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]);
+  };
+
+  const handleExport = () => {
+    exportLeads(items, columns, format, `leads-${new Date().toISOString().slice(0, 10)}`);
+    onClose();
+  };
+
+  return (
+    <div className="p-4 border-b border-gray-200 bg-white">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {GROUPS.map(group => (
+          <div key={group}>
+            <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{group}</h4>
+            <div className="space-y-1">
+              {EXPORT_COLUMNS.filter(c => c.group === group).map(column => (
+                <label key={column.key} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                    className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mt-4 pt-3 border-t border-gray-100">
+        <div className="flex items-center gap-4 text-sm text-gray-700">
+          <label className="flex items-center gap-1.5">
+            <input type="radio" checked={format === 'xlsx'} onChange={() => setFormat('xlsx')} className="text-red-600 focus:ring-red-500" />
+            Excel (.xlsx)
+          </label>
+          <label className="flex items-center gap-1.5">
+            <input type="radio" checked={format === 'csv'} onChange={() => setFormat('csv')} className="text-red-600 focus:ring-red-500" />
+            CSV (UTF-8)
+          </label>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onClose} className="text-sm text-gray-600 hover:text-gray-900 px-3 py-1.5">Cancel</button>
+          <button
+            onClick={handleExport}
+            disabled={columns.length === 0 || items.length === 0}
+            className="text-sm bg-red-600 text-white px-4 py-1.5 rounded-md hover:bg-red-700 disabled:opacity-50 font-medium"
+          >
+            Export {items.length} Lead{items.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
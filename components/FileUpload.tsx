@@ -1,26 +1,27 @@
-import React, { useRef, useState, useEffect } from 'react';
-import * as XLSX from 'xlsx';
-import { Customer } from '../types';
+import React, { useRef, useState, useMemo } from 'react';
+import { ColumnMapping, Customer, UploadedFile } from '../types';
+import {
+  SheetSource,
+  HEADER_SCAN_ROWS,
+  EMPTY_MAPPING,
+  readSpreadsheetFile,
+  autoMapColumns,
+  getHeaders,
+  sourcesToCustomers
+} from '../services/spreadsheetService';
+import { isPdf, readUploadedFile, SUPPORTED_UPLOAD_TYPES, toDataUrl } from '../services/extractionService';
+
+const PREVIEW_ROWS = 5;
 
 interface ImportSectionProps {
-  onImageSelected: (base64: string) => void;
+  onFilesSelected: (files: UploadedFile[]) => void;
   onTextSelected: (text: string) => void;
   onCustomersLoaded: (customers: Customer[]) => void;
   isAnalyzing: boolean;
 }
 
-type ColumnMapping = {
-  company: string;
-  representative: string;
-  phone: string;
-  email: string;
-  country: string;
-  website: string;
-  notes: string;
-};
-
 export const FileUpload: React.FC<ImportSectionProps> = ({ 
-  onImageSelected, 
+  onFilesSelected,
   onTextSelected, 
   onCustomersLoaded,
   isAnalyzing 
@@ -28,39 +29,53 @@ export const FileUpload: React.FC<ImportSectionProps> = ({
   const [mode, setMode] = useState<'upload' | 'paste' | 'excel'>('upload');
   const [pasteContent, setPasteContent] = useState('');
   
-  // Image logic
+  // Image and PDF logic: pages are extracted in the order listed here
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [preview, setPreview] = useState<string | null>(null);
+  const [uploads, setUploads] = useState<UploadedFile[]>([]);
+  const [uploadError, setUploadError] = useState<string | null>(null);
 
   // Excel Logic
   const excelInputRef = useRef<HTMLInputElement>(null);
-  const [excelFile, setExcelFile] = useState<File | null>(null);
-  const [excelHeaders, setExcelHeaders] = useState<string[]>([]);
-  const [excelData, setExcelData] = useState<any[]>([]);
-  const [mapping, setMapping] = useState<ColumnMapping>({
-    company: '',
-    representative: '',
-    phone: '',
-    email: '',
-    country: '',
-    website: '',
-    notes: ''
-  });
-  const [showMapping, setShowMapping] = useState(false);
+  const [sheetSources, setSheetSources] = useState<SheetSource[]>([]);
+  const [mappingSourceId, setMappingSourceId] = useState<string>('');
+  const [excelError, setExcelError] = useState<string | null>(null);
+
+  const selectedSources = useMemo(() => sheetSources.filter(s => s.selected), [sheetSources]);
+  // Each sheet is mapped on its own; the form shows one selected sheet at a time
+  const mappingSource = selectedSources.find(s => s.id === mappingSourceId) || selectedSources[0];
+  const mapping = mappingSource?.mapping || EMPTY_MAPPING;
+  const excelHeaders = useMemo(() => mappingSource ? getHeaders(mappingSource).filter(Boolean) : [], [mappingSource]);
+  const previewCustomers = useMemo(() => sourcesToCustomers(selectedSources), [selectedSources]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    // Phone photos are named in shooting order, so sorting by name usually gives the page order
+    const files = (Array.from(e.target.files || []) as File[]).sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    if (files.length === 0) return;
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64 = reader.result as string;
-        setPreview(base64);
-        onImageSelected(base64);
-      };
-      reader.readAsDataURL(file);
+    setUploadError(null);
+    try {
+      const loaded = await Promise.all(files.map(readUploadedFile));
+      const unsupported = loaded.filter(f => !SUPPORTED_UPLOAD_TYPES.includes(f.mimeType));
+      if (unsupported.length > 0) {
+        setUploadError(`Not supported: ${unsupported.map(f => f.name).join(', ')}. Use JPEG, PNG, WebP or PDF (convert HEIC photos first).`);
+      }
+      setUploads(prev => [...prev, ...loaded.filter(f => SUPPORTED_UPLOAD_TYPES.includes(f.mimeType))]);
+    } catch (err) {
+      console.error("Upload read error:", err);
+      setUploadError("Could not read one of the files.");
+    } finally {
+      // Allow re-selecting the same file
+      if (fileInputRef.current) fileInputRef.current.value = '';
     }
   };
 
+  const moveUpload = (index: number, offset: number) => {
+    const next = [...uploads];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    setUploads(next);
+  };
+
   const handlePasteSubmit = () => {
     if (pasteContent.trim()) {
       onTextSelected(pasteContent);
@@ -69,71 +84,44 @@ export const FileUpload: React.FC<ImportSectionProps> = ({
 
   // Excel Handlers
   const handleExcelChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setExcelFile(file);
-      const data = await file.arrayBuffer();
-      const workbook = XLSX.read(data);
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 });
-      
-      if (jsonData.length > 0) {
-        const headers = jsonData[0] as string[];
-        const rows = jsonData.slice(1);
-        setExcelHeaders(headers);
-        setExcelData(rows);
-        setShowMapping(true);
-        autoMapColumns(headers);
-      }
+    const files = Array.from(e.target.files || []);
+    if (files.length === 0) return;
+
+    setExcelError(null);
+    try {
+      const loaded = (await Promise.all(files.map(readSpreadsheetFile))).flat();
+      setSheetSources(prev => [...prev, ...loaded]);
+    } catch (err) {
+      console.error("Spreadsheet read error:", err);
+      setExcelError("Could not read one of the files. Supported formats: .xlsx, .xls, .ods, .csv");
+    } finally {
+      // Allow re-selecting the same file
+      if (excelInputRef.current) excelInputRef.current.value = '';
     }
   };
 
-  const autoMapColumns = (headers: string[]) => {
-    const newMapping = { ...mapping };
-    const lowerHeaders = headers.map(h => h.toString().toLowerCase());
-
-    const findMatch = (keywords: string[]) => {
-      const index = lowerHeaders.findIndex(h => keywords.some(k => h.includes(k)));
-      return index !== -1 ? headers[index] : '';
-    };
+  const updateSource = (id: string, changes: Partial<SheetSource>) => {
+    setSheetSources(prev => prev.map(s => {
+      if (s.id !== id) return s;
+      const next = { ...s, ...changes };
+      // A different header row means different headers, so re-run the automatic mapping
+      return changes.headerRow !== undefined ? { ...next, mapping: autoMapColumns(getHeaders(next)) } : next;
+    }));
+  };
 
-    newMapping.company = findMatch(['firm', 'company', 'name', 'business']);
-    newMapping.representative = findMatch(['rep', 'contact', 'person', 'mr', 'mrs', 'name']);
-    newMapping.phone = findMatch(['tel', 'phone', 'mobile', 'cel']);
-    newMapping.email = findMatch(['mail', 'e-mail']);
-    newMapping.country = findMatch(['country', 'address', 'city', 'location']);
-    newMapping.website = findMatch(['web', 'site', 'url']);
-    newMapping.notes = findMatch(['note', 'desc', 'comment', 'product', 'interest', 'açıklama']);
+  const setMapping = (next: ColumnMapping) => {
+    if (mappingSource) updateSource(mappingSource.id, { mapping: next });
+  };
 
-    setMapping(newMapping);
+  const resetExcel = () => {
+    setSheetSources([]);
+    setMappingSourceId('');
+    setExcelError(null);
+    if (excelInputRef.current) excelInputRef.current.value = '';
   };
 
   const processExcelData = () => {
-    const customers: Customer[] = excelData.map((row, index) => {
-      // Helper to get value safely based on mapped header index
-      const getVal = (headerName: string) => {
-        if (!headerName) return "";
-        const colIndex = excelHeaders.indexOf(headerName);
-        if (colIndex === -1) return "";
-        return (row[colIndex] || "").toString().trim();
-      };
-
-      return {
-        id: `cust-xls-${Date.now()}-${index}`,
-        company: getVal(mapping.company),
-        representative: getVal(mapping.representative),
-        phone: getVal(mapping.phone),
-        email: getVal(mapping.email),
-        country: getVal(mapping.country),
-        website: getVal(mapping.website),
-        notes: getVal(mapping.notes)
-      };
-    });
-
-    // Filter out completely empty rows
-    const validCustomers = customers.filter(c => c.company || c.phone || c.email);
-    onCustomersLoaded(validCustomers);
+    onCustomersLoaded(previewCustomers);
   };
 
   return (
@@ -149,7 +137,7 @@ export const FileUpload: React.FC<ImportSectionProps> = ({
               : 'text-gray-500 hover:text-gray-700 hover:bg-gray-50'
           }`}
         >
-          📷 Upload Image
+          📷 Upload Images / PDF
         </button>
         <button
           onClick={() => setMode('excel')}
@@ -180,31 +168,57 @@ export const FileUpload: React.FC<ImportSectionProps> = ({
           // Upload Area
           <div 
             className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
-              preview ? 'border-red-500 bg-red-50' : 'border-gray-300 hover:border-red-400'
+              uploads.length > 0 ? 'border-red-500 bg-red-50' : 'border-gray-300 hover:border-red-400'
             }`}
           >
             <input
               type="file"
-              accept="image/*"
+              accept="image/*,application/pdf"
+              multiple
               className="hidden"
               ref={fileInputRef}
               onChange={handleFileChange}
               disabled={isAnalyzing}
             />
+            {uploadError && <p className="text-sm text-red-600 mb-4">{uploadError}</p>}
             
-            {preview ? (
+            {uploads.length > 0 ? (
               <div className="space-y-4">
-                <img src={preview} alt="List Preview" className="max-h-64 mx-auto rounded shadow-sm" />
-                <button
-                  onClick={() => {
-                    setPreview(null);
-                    if (fileInputRef.current) fileInputRef.current.value = '';
-                  }}
-                  className="text-sm text-red-600 hover:text-red-800 font-medium"
-                  disabled={isAnalyzing}
-                >
-                  Change Image
-                </button>
+                <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                  {uploads.map((file, index) => (
+                    <div key={file.id} className="bg-white rounded border border-gray-200 p-2 text-left">
+                      {isPdf(file) ? (
+                        <div className="h-24 flex items-center justify-center bg-gray-50 rounded text-2xl">📄</div>
+                      ) : (
+                        <img src={toDataUrl(file)} alt={file.name} className="h-24 w-full object-cover rounded" />
+                      )}
+                      <p className="text-xs text-gray-700 truncate mt-1" title={file.name}>{index + 1}. {file.name}</p>
+                      <div className="flex justify-between text-xs mt-1">
+                        <div className="flex gap-2">
+                          <button onClick={() => moveUpload(index, -1)} disabled={index === 0 || isAnalyzing} className="text-gray-500 hover:text-gray-900 disabled:opacity-30" title="Earlier page">◀</button>
+                          <button onClick={() => moveUpload(index, 1)} disabled={index === uploads.length - 1 || isAnalyzing} className="text-gray-500 hover:text-gray-900 disabled:opacity-30" title="Later page">▶</button>
+                        </div>
+                        <button onClick={() => setUploads(uploads.filter(f => f.id !== file.id))} disabled={isAnalyzing} className="text-red-600 hover:text-red-800">Remove</button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-center gap-4">
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="text-sm text-red-600 hover:text-red-800 font-medium"
+                    disabled={isAnalyzing}
+                  >
+                    + Add Files
+                  </button>
+                  <button
+                    onClick={() => onFilesSelected(uploads)}
+                    disabled={isAnalyzing}
+                    className="bg-red-600 text-white px-6 py-2 rounded-lg hover:bg-red-700 disabled:opacity-50 font-medium"
+                  >
+                    Extract {uploads.length} File{uploads.length === 1 ? '' : 's'}
+                  </button>
+                </div>
               </div>
             ) : (
               <div 
@@ -216,8 +230,8 @@ export const FileUpload: React.FC<ImportSectionProps> = ({
                     <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
                   </svg>
                 </div>
-                <h3 className="text-lg font-medium text-gray-900">Click to Upload Image</h3>
-                <p className="text-sm text-gray-500">Upload a photo of your Canton Fair list</p>
+                <h3 className="text-lg font-medium text-gray-900">Click to Upload Images or PDF</h3>
+                <p className="text-sm text-gray-500">Photos of your Canton Fair list or a scanned PDF — select several pages at once</p>
               </div>
             )}
           </div>
@@ -225,68 +239,156 @@ export const FileUpload: React.FC<ImportSectionProps> = ({
 
         {mode === 'excel' && (
            <div className="space-y-6">
-             {!showMapping ? (
+             <input
+               type="file"
+               accept=".xlsx, .xls, .ods, .csv, .tsv"
+               multiple
+               className="hidden"
+               ref={excelInputRef}
+               onChange={handleExcelChange}
+             />
+             {excelError && (
+               <p className="text-sm text-red-600">{excelError}</p>
+             )}
+             {sheetSources.length === 0 ? (
                <div 
                  className="border-2 border-dashed border-gray-300 rounded-lg p-10 text-center hover:border-green-500 hover:bg-green-50 transition-colors cursor-pointer"
                  onClick={() => excelInputRef.current?.click()}
                >
-                 <input
-                   type="file"
-                   accept=".xlsx, .xls, .csv"
-                   className="hidden"
-                   ref={excelInputRef}
-                   onChange={handleExcelChange}
-                 />
                  <div className="mx-auto h-12 w-12 text-green-600 mb-3">
                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor">
                      <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 00-3.375-3.375h-1.5A1.125 1.125 0 0113.5 7.125v-1.5a3.375 3.375 0 00-3.375-3.375H8.25m2.25 0H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 00-9-9z" />
                    </svg>
                  </div>
-                 <h3 className="text-lg font-medium text-gray-900">Upload Excel File</h3>
-                 <p className="text-sm text-gray-500">.xlsx, .xls, or .csv</p>
+                 <h3 className="text-lg font-medium text-gray-900">Upload Spreadsheets</h3>
+                 <p className="text-sm text-gray-500">.xlsx, .xls, .ods or .csv — select several files to merge them</p>
                </div>
              ) : (
-               <div className="bg-gray-50 p-6 rounded-lg border border-gray-200">
-                 <div className="flex justify-between items-center mb-4">
-                    <h3 className="font-bold text-gray-900">Map Columns</h3>
-                    <button 
-                      onClick={() => {
-                        setShowMapping(false);
-                        setExcelFile(null);
-                        setExcelData([]);
-                        if (excelInputRef.current) excelInputRef.current.value = '';
-                      }}
-                      className="text-xs text-red-600 hover:underline"
-                    >
-                      Remove File
-                    </button>
-                 </div>
-                 <p className="text-sm text-gray-600 mb-6">Match your Excel headers to the application fields.</p>
-                 
-                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-                    {Object.keys(mapping).map((field) => (
-                      <div key={field}>
-                        <label className="block text-xs font-medium text-gray-700 uppercase mb-1">{field}</label>
-                        <select
-                          value={mapping[field as keyof ColumnMapping]}
-                          onChange={(e) => setMapping({...mapping, [field]: e.target.value})}
-                          className="w-full text-sm border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+               <div className="bg-gray-50 p-6 rounded-lg border border-gray-200 space-y-6">
+                 <div>
+                   <div className="flex justify-between items-center mb-3">
+                      <h3 className="font-bold text-gray-900">Sheets</h3>
+                      <div className="flex gap-4">
+                        <button 
+                          onClick={() => excelInputRef.current?.click()}
+                          className="text-xs text-green-700 hover:underline"
+                        >
+                          + Add Files
+                        </button>
+                        <button 
+                          onClick={resetExcel}
+                          className="text-xs text-red-600 hover:underline"
                         >
-                          <option value="">-- Ignore --</option>
-                          {excelHeaders.map((h, i) => (
-                            <option key={i} value={h}>{h}</option>
-                          ))}
-                        </select>
+                          Remove All
+                        </button>
                       </div>
-                    ))}
+                   </div>
+                   <p className="text-sm text-gray-600 mb-3">Choose the sheets to import and check which row holds the column headers.</p>
+                   <div className="space-y-2">
+                     {sheetSources.map(source => (
+                       <div key={source.id} className="flex flex-col sm:flex-row sm:items-center gap-2 bg-white border border-gray-200 rounded p-2">
+                         <label className="flex items-center gap-2 flex-1 text-sm text-gray-800">
+                           <input
+                             type="checkbox"
+                             checked={source.selected}
+                             onChange={(e) => updateSource(source.id, { selected: e.target.checked })}
+                             className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                           />
+                           <span className="font-medium">{source.fileName}</span>
+                           <span className="text-gray-400">›</span>
+                           <span>{source.sheetName}</span>
+                           <span className="text-xs text-gray-400">({Math.max(source.rows.length - source.headerRow - 1, 0)} rows)</span>
+                         </label>
+                         <select
+                           value={source.headerRow}
+                           onChange={(e) => updateSource(source.id, { headerRow: Number(e.target.value) })}
+                           disabled={!source.selected}
+                           className="text-xs border-gray-300 rounded-md sm:w-72 focus:ring-green-500 focus:border-green-500"
+                           title="Header row"
+                         >
+                           {source.rows.slice(0, HEADER_SCAN_ROWS).map((row, i) => (
+                             <option key={i} value={i}>
+                               Header row {i + 1}: {row.filter(Boolean).join(' | ').slice(0, 50)}
+                             </option>
+                           ))}
+                         </select>
+                       </div>
+                     ))}
+                   </div>
                  </div>
+
+                 <div>
+                   <h3 className="font-bold text-gray-900 mb-1">Map Columns</h3>
+                   <p className="text-sm text-gray-600 mb-4">
+                     Match your spreadsheet headers to the application fields.
+                     {selectedSources.length > 1 && ' Each sheet is mapped separately, so differently named columns still line up.'}
+                   </p>
+                   {selectedSources.length > 1 && (
+                     <select
+                       value={mappingSource?.id}
+                       onChange={(e) => setMappingSourceId(e.target.value)}
+                       className="w-full text-sm border-gray-300 rounded-md mb-4 focus:ring-green-500 focus:border-green-500"
+                     >
+                       {selectedSources.map(source => (
+                         <option key={source.id} value={source.id}>Mapping for {source.fileName} › {source.sheetName}</option>
+                       ))}
+                     </select>
+                   )}
+                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {Object.keys(mapping).map((field) => (
+                        <div key={field}>
+                          <label className="block text-xs font-medium text-gray-700 uppercase mb-1">{field}</label>
+                          <select
+                            value={mapping[field as keyof ColumnMapping]}
+                            onChange={(e) => setMapping({...mapping, [field]: e.target.value})}
+                            className="w-full text-sm border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+                          >
+                            <option value="">-- Ignore --</option>
+                            {excelHeaders.map((h, i) => (
+                              <option key={i} value={h}>{h}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                   </div>
+                 </div>
+
+                 {previewCustomers.length > 0 && (
+                   <div>
+                     <h3 className="font-bold text-gray-900 mb-2">Preview</h3>
+                     <div className="overflow-x-auto bg-white border border-gray-200 rounded">
+                       <table className="min-w-full divide-y divide-gray-200 text-xs">
+                         <thead className="bg-gray-50">
+                           <tr>
+                             {Object.keys(mapping).map(field => (
+                               <th key={field} className="px-3 py-2 text-left font-medium text-gray-500 uppercase tracking-wider">{field}</th>
+                             ))}
+                           </tr>
+                         </thead>
+                         <tbody className="divide-y divide-gray-100">
+                           {previewCustomers.slice(0, PREVIEW_ROWS).map(customer => (
+                             <tr key={customer.id}>
+                               {(Object.keys(mapping) as (keyof ColumnMapping)[]).map(field => (
+                                 <td key={field} className="px-3 py-2 text-gray-700 max-w-[10rem] truncate" title={customer[field]}>{customer[field]}</td>
+                               ))}
+                             </tr>
+                           ))}
+                         </tbody>
+                       </table>
+                     </div>
+                     {previewCustomers.length > PREVIEW_ROWS && (
+                       <p className="text-xs text-gray-500 mt-1">…and {previewCustomers.length - PREVIEW_ROWS} more</p>
+                     )}
+                   </div>
+                 )}
                  
                  <div className="flex justify-end">
                     <button 
                       onClick={processExcelData}
-                      className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 font-medium shadow-sm"
+                      disabled={previewCustomers.length === 0}
+                      className="bg-green-600 text-white px-6 py-2 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-sm"
                     >
-                      Process {excelData.length} Rows
+                      Import {previewCustomers.length} Rows from {selectedSources.length} Sheet{selectedSources.length === 1 ? '' : 's'}
                     </button>
                  </div>
                </div>
@@ -300,6 +402,7 @@ export const FileUpload: React.FC<ImportSectionProps> = ({
             <label className="block text-sm font-medium text-gray-700">
               Paste your Excel / Spreadsheet data here
             </label>
+            <p className="text-xs text-gray-500">Tables with a header row are parsed instantly on your device. Anything else is sent to the AI.</p>
             <textarea
               value={pasteContent}
               onChange={(e) => setPasteContent(e.target.value)}
@@ -313,7 +416,7 @@ export const FileUpload: React.FC<ImportSectionProps> = ({
                 disabled={isAnalyzing || !pasteContent.trim()}
                 className="bg-red-600 text-white px-6 py-2 rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed font-medium transition-colors"
               >
-                {isAnalyzing ? 'Processing...' : 'Process with AI'}
+                {isAnalyzing ? 'Processing...' : 'Process'}
               </button>
             </div>
           </div>
@@ -0,0 +1,127 @@
+import React from 'react';
+import { FollowUpState } from '../types';
+import { DueFollowUp, formatStepLabel } from '../services/sequenceService';
+import { normalizePhone, splitPhoneNumbers, whatsappDigits } from '../services/phoneService';
+import { textDirection } from '../services/languageService';
+import { LLMError } from '../services/llmError';
+import { LLMErrorBanner } from './LLMErrorBanner';
+
+interface FollowUpQueueProps {
+  due: DueFollowUp[];
+  followUps: Record<string, FollowUpState>;
+  generatingKeys: Set<string>;
+  errors: Record<string, LLMError>; // Why the last draft of a step failed, keyed like generatingKeys
+  onGenerate: (due: DueFollowUp) => void;
+  onDone: (due: DueFollowUp) => void;
+  onSkip: (due: DueFollowUp) => void;
+}
+
+// Key under which a follow-up draft is tracked while it generates
+export const followUpKey = (due: DueFollowUp) => `${due.item.customer.id}:${due.step.id}`;
+
+export const FollowUpQueue: React.FC<FollowUpQueueProps> = ({ due, followUps, generatingKeys, errors, onGenerate, onDone, onSkip }) => {
+  if (due.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-blue-200 overflow-hidden">
+      <div className="p-4 border-b border-blue-100 bg-blue-50">
+        <h2 className="text-lg font-bold text-gray-900">Due Today ({due.length})</h2>
+        <p className="text-sm text-gray-600">Follow-ups from your sequence that are due or overdue.</p>
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {due.map(entry => {
+          const { customer } = entry.item;
+          const message = followUps[customer.id]?.[entry.step.id]?.message;
+          const isGenerating = generatingKeys.has(followUpKey(entry));
+          const error = errors[followUpKey(entry)];
+          const phone = splitPhoneNumbers(customer.phone).map(p => normalizePhone(p, customer.country)).find(p => p.e164);
+          const text = message ? (entry.step.channel === 'whatsapp' ? message.whatsappBody || message.body : message.body) : '';
+
+          const sendLink = !message
+            ? null
+            : entry.step.channel === 'email'
+              ? customer.email && `mailto:${customer.email}?subject=${encodeURIComponent(message.subject)}&body=${encodeURIComponent(message.body)}`
+              : phone && `https://wa.me/${whatsappDigits(phone)}?text=${encodeURIComponent(text)}`;
+
+          return (
+            <div key={followUpKey(entry)} className="p-4">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-bold text-gray-900">{customer.company || 'Unknown Company'}</span>
+                  {customer.representative && <span className="text-sm text-gray-600">{customer.representative}</span>}
+                  <span className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded-full">
+                    Step {entry.stepNumber}: {formatStepLabel(entry.step)}
+                  </span>
+                  {entry.overdueDays > 0 && (
+                    <span className="text-xs bg-red-50 text-red-700 border border-red-200 px-2 py-0.5 rounded-full">
+                      {entry.overdueDays} day{entry.overdueDays === 1 ? '' : 's'} overdue
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onSkip(entry)}
+                    className="text-xs text-gray-600 hover:text-gray-900 px-3 py-1.5"
+                  >
+                    Skip
+                  </button>
+                  <button
+                    onClick={() => onGenerate(entry)}
+                    disabled={isGenerating}
+                    className="text-xs bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200 disabled:opacity-50 font-medium"
+                  >
+                    {isGenerating ? 'Drafting...' : message ? '↻ Regenerate' : 'Generate Draft'}
+                  </button>
+                  {sendLink && (
+                    <a
+                      href={sendLink}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-xs bg-blue-600 text-white px-3 py-1.5 rounded-md hover:bg-blue-700 font-medium"
+                    >
+                      {entry.step.channel === 'email' ? 'Open Mail' : 'Open WhatsApp'}
+                    </a>
+                  )}
+                  <button
+                    onClick={() => onDone(entry)}
+                    disabled={!message}
+                    className="text-xs bg-gray-900 text-white px-3 py-1.5 rounded-md hover:bg-gray-800 disabled:opacity-50 font-medium"
+                    title={message ? 'Mark this step as sent' : 'Generate the draft first'}
+                  >
+                    Mark Sent
+                  </button>
+                </div>
+              </div>
+              {entry.step.purpose && <p className="text-xs text-gray-500 mt-1">{entry.step.purpose}</p>}
+
+              {error && !isGenerating && (
+                <LLMErrorBanner
+                  title="Draft failed"
+                  error={error}
+                  previousNote={message ? 'The draft below is the previous version.' : undefined}
+                  onRetry={() => onGenerate(entry)}
+                  className="mt-3"
+                />
+              )}
+
+              {message && (
+                <div
+                  className={`mt-3 rounded p-3 text-sm text-gray-700 border whitespace-pre-wrap max-h-48 overflow-y-auto ${
+                    entry.step.channel === 'whatsapp' ? 'bg-[#e5ddd5] border-green-200' : 'bg-gray-50 border-gray-200 font-mono'
+                  }`}
+                  dir={textDirection(message.language, text)}
+                >
+                  {entry.step.channel === 'email' && (
+                    <strong className="block text-gray-900 mb-2 border-b pb-1">Subject: {message.subject}</strong>
+                  )}
+                  {text}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React from 'react';
+import { ProcessingStatus } from '../types';
+
+interface GenerationProgressProps {
+  status: ProcessingStatus;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onDismiss: () => void;
+  failures: { label: string; kind: string; message: string }[];
+  onRetryFailed: () => void;
+  action?: 'generate' | 'send';
+}
+
+const WORDING = {
+  generate: { noun: 'draft', active: 'Generating', done: 'generated' },
+  send: { noun: 'email', active: 'Sending', done: 'sent' },
+};
+
+const formatEta = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export const GenerationProgress: React.FC<GenerationProgressProps> = ({ status, onPause, onResume, onCancel, onDismiss, failures, onRetryFailed, action = 'generate' }) => {
+  const { isGenerating, isPaused, progress, failed, total, etaMs } = status;
+  const { noun, active, done } = WORDING[action as 'generate' | 'send'];
+  const percent = total > 0 ? Math.round((progress / total) * 100) : 0;
+  const succeeded = progress - failed;
+
+  // Contacts grouped by the reason their job failed
+  const failureGroups: Record<string, { message: string; labels: string[] }> = {};
+  failures.forEach(({ label, kind, message }: { label: string; kind: string; message: string }) => {
+    failureGroups[kind] = failureGroups[kind] || { message, labels: [] };
+    failureGroups[kind].labels.push(label);
+  });
+
+  const summary = isGenerating
+    ? `${isPaused ? 'Paused' : active}: ${progress} of ${total} ${noun}s`
+    : progress < total
+      ? `Stopped after ${progress} of ${total} ${noun}s`
+      : `Finished: ${succeeded} of ${total} ${noun}s ${done}`;
+
+  return (
+    <div className="bg-white p-4 rounded-lg border border-gray-200 shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-2">
+        <div className="text-sm text-gray-700">
+          <span className="font-medium">{summary}</span>
+          {failed > 0 && <span className="text-red-600"> · {failed} failed</span>}
+          {isGenerating && !isPaused && etaMs !== undefined && (
+            <span className="text-gray-500"> · about {formatEta(etaMs)} left</span>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {isGenerating ? (
+            <>
+              <button
+                onClick={isPaused ? onResume : onPause}
+                className="text-xs bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200 font-medium"
+              >
+                {isPaused ? 'Resume' : 'Pause'}
+              </button>
+              <button
+                onClick={onCancel}
+                className="text-xs text-gray-600 hover:text-red-600 px-3 py-1.5 font-medium"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button onClick={onDismiss} className="text-gray-400 hover:text-gray-700 text-sm" title="Dismiss">✕</button>
+          )}
+        </div>
+      </div>
+      <div className="w-full bg-gray-100 rounded-full h-2 overflow-hidden">
+        <div
+          className={`h-2 rounded-full transition-all ${failed > 0 ? 'bg-amber-500' : 'bg-red-600'} ${isPaused ? 'opacity-50' : ''}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      {!isGenerating && failures.length > 0 && (
+        <div className="mt-3 bg-red-50 border border-red-200 rounded-md p-3">
+          <div className="flex items-center justify-between mb-1">
+            <span className="text-sm font-medium text-red-800">{failures.length} {noun}{failures.length === 1 ? '' : 's'} failed</span>
+            <button
+              onClick={onRetryFailed}
+              className="text-xs bg-white border border-red-300 text-red-700 px-3 py-1 rounded-md hover:bg-red-100 font-medium"
+            >
+              Retry Failed
+            </button>
+          </div>
+          <ul className="space-y-1 text-xs text-red-700">
+            {Object.entries(failureGroups).map(([kind, group]) => (
+              <li key={kind}>
+                <span className="font-medium">{group.message}</span> {group.labels.join(', ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
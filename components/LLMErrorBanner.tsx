@@ -0,0 +1,27 @@
+import React from 'react';
+import { LLMError } from '../services/llmError';
+
+interface LLMErrorBannerProps {
+  title: string; // What failed, e.g. "Draft failed"
+  error: LLMError;
+  previousNote?: string; // Shown when an older version is still displayed below
+  onRetry: () => void;
+  className?: string;
+}
+
+// Why the last AI request failed, with the provider's own message as a tooltip and a retry
+export const LLMErrorBanner: React.FC<LLMErrorBannerProps> = ({ title, error, previousNote, onRetry, className = '' }) => (
+  <div className={`bg-red-50 border border-red-200 rounded-md p-3 flex items-start justify-between gap-3 ${className}`}>
+    <div>
+      <p className="text-sm font-medium text-red-800">{title}</p>
+      <p className="text-xs text-red-700 mt-0.5" title={error.detail}>{error.message}</p>
+      {previousNote && <p className="text-xs text-red-600 mt-1">{previousNote}</p>}
+    </div>
+    <button
+      onClick={onRetry}
+      className="text-xs bg-white border border-red-300 text-red-700 px-3 py-1.5 rounded-md hover:bg-red-100 font-medium whitespace-nowrap"
+    >
+      Retry
+    </button>
+  </div>
+);
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { SmtpSecurity, SmtpSettings } from '../types';
+import { verifySmtp } from '../services/smtpService';
+
+interface MailServerSettingsProps {
+  smtp: SmtpSettings;
+  onChange: (smtp: SmtpSettings) => void;
+}
+
+const SECURITY_OPTIONS: { id: SmtpSecurity; label: string; port: number }[] = [
+  { id: 'none', label: 'None (local test server)', port: 1025 },
+  { id: 'starttls', label: 'STARTTLS', port: 587 },
+  { id: 'tls', label: 'SSL/TLS', port: 465 },
+];
+
+const inputClass = "w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500";
+
+export const MailServerSettings: React.FC<MailServerSettingsProps> = ({ smtp, onChange }) => {
+  const [check, setCheck] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const update = (changes: Partial<SmtpSettings>) => {
+    setCheck(null);
+    onChange({ ...smtp, ...changes });
+  };
+
+  const handleTest = async () => {
+    setIsChecking(true);
+    try {
+      setCheck({ ok: true, message: await verifySmtp(smtp) });
+    } catch (error) {
+      setCheck({ ok: false, message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="grid grid-cols-3 gap-4">
+          <div className="col-span-2">
+            <label className="block text-xs font-medium text-gray-700 mb-1">SMTP Host</label>
+            <input type="text" value={smtp.host} onChange={(e) => update({ host: e.target.value.trim() })} className={inputClass} placeholder="e.g. smtp.office365.com" />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Port</label>
+            <input
+              type="number"
+              min={1}
+              max={65535}
+              value={smtp.port}
+              onChange={(e) => update({ port: parseInt(e.target.value, 10) || 0 })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Encryption</label>
+          <select
+            value={smtp.security}
+            // Switching encryption usually means switching to its standard port as well
+            onChange={(e) => {
+              const option = SECURITY_OPTIONS.find(o => o.id === e.target.value)!;
+              update({ security: option.id, port: option.port });
+            }}
+            className={inputClass}
+          >
+            {SECURITY_OPTIONS.map(o => (
+              <option key={o.id} value={o.id}>{o.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Username</label>
+          <input type="text" value={smtp.username} onChange={(e) => update({ username: e.target.value })} className={inputClass} placeholder="Leave empty if the server needs no login" autoComplete="off" />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Password</label>
+          <input type="password" value={smtp.password} onChange={(e) => update({ password: e.target.value })} className={inputClass} autoComplete="new-password" />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Seconds Between Bulk Emails</label>
+          <input
+            type="number"
+            min={0}
+            max={600}
+            value={smtp.throttleSeconds}
+            onChange={(e) => update({ throttleSeconds: Math.min(600, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex items-end gap-3">
+          <button
+            onClick={handleTest}
+            disabled={isChecking || !smtp.host}
+            className="text-sm bg-gray-100 text-gray-700 px-4 py-2 rounded-md hover:bg-gray-200 disabled:opacity-50 font-medium whitespace-nowrap"
+          >
+            {isChecking ? 'Testing...' : 'Test Connection'}
+          </button>
+          {check && <span className={`text-xs ${check.ok ? 'text-green-700' : 'text-red-600'}`}>{check.message}</span>}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-3">
+        Mail goes out from the active sender profile's email address. To try sending safely, run MailHog and keep localhost:1025; its inbox is at http://localhost:8025.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { CustomerField } from '../types';
+import { QualityIssue } from '../services/validationService';
+
+interface QualityIssuesProps {
+  issues: QualityIssue[];
+  onApplyFix: (patch: Partial<Record<CustomerField, string>>) => void;
+  onApplyAll: () => void;
+}
+
+export const QualityIssues: React.FC<QualityIssuesProps> = ({ issues, onApplyFix, onApplyAll }) => {
+  if (issues.length === 0) return null;
+
+  const fixableCount = issues.filter(i => i.fix).length;
+
+  return (
+    <div className="px-4 py-3 border-b border-amber-100 bg-amber-50">
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-xs font-semibold text-amber-800 uppercase tracking-wide">Data Quality</p>
+        {fixableCount > 1 && (
+          <button
+            onClick={onApplyAll}
+            className="text-xs text-amber-800 hover:text-amber-900 font-medium underline"
+          >
+            Apply all {fixableCount} fixes
+          </button>
+        )}
+      </div>
+      <ul className="space-y-1.5">
+        {issues.map((issue, i) => (
+          <li key={i} className="flex flex-col sm:flex-row sm:items-center justify-between gap-1 text-sm">
+            <span className={issue.severity === 'error' ? 'text-red-700' : 'text-amber-800'}>
+              {issue.severity === 'error' ? '⛔' : '⚠️'} {issue.message}
+            </span>
+            {issue.fix && (
+              <button
+                onClick={() => onApplyFix(issue.fix!.patch)}
+                className="text-xs bg-white border border-amber-300 text-amber-800 px-2 py-1 rounded hover:bg-amber-100 whitespace-nowrap self-start"
+              >
+                {issue.fix.label}
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { WorkspaceSnapshot } from '../types';
+
+interface RestorePromptProps {
+  snapshot: WorkspaceSnapshot | null;
+  loadError?: string | null; // The saved session exists but couldn't be read or migrated
+  onRestore: () => void;
+  onDiscard: () => void;
+}
+
+export const RestorePrompt: React.FC<RestorePromptProps> = ({ snapshot, loadError, onRestore, onDiscard }) => {
+  if (loadError || !snapshot) {
+    return (
+      <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-6 rounded-r shadow-sm flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+        <div>
+          <p className="text-sm font-bold text-red-900">Your last session could not be loaded</p>
+          <p className="text-sm text-red-800 mt-1">{loadError}</p>
+          <p className="text-sm text-red-800 mt-1">
+            It is left untouched and nothing is saved for now. Reload after updating the app, or start fresh to overwrite it.
+          </p>
+        </div>
+        <button
+          onClick={onDiscard}
+          className="text-red-700 hover:text-red-900 text-sm font-medium px-4 py-2 whitespace-nowrap"
+        >
+          Start Fresh
+        </button>
+      </div>
+    );
+  }
+
+  const { campaigns } = snapshot;
+  const customerCount = campaigns.reduce((sum, c) => sum + c.customers.length, 0);
+  const draftCount = campaigns.reduce((sum, c) => sum + Object.keys(c.generatedMessages).length, 0);
+  const savedCount = campaigns.reduce((sum, c) => sum + c.savedItems.length, 0);
+  const savedAt = new Date(snapshot.savedAt).toLocaleString();
+
+  return (
+    <div className="bg-blue-50 border-l-4 border-blue-500 p-4 mb-6 rounded-r shadow-sm flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+      <div>
+        <p className="text-sm font-bold text-blue-900">Restore your last session?</p>
+        <p className="text-sm text-blue-800 mt-1">
+          {customerCount} active contacts, {draftCount} drafts and {savedCount} archived
+          {' '}across {campaigns.length} campaign{campaigns.length === 1 ? '' : 's'} (saved {savedAt}).
+        </p>
+      </div>
+      <div className="flex gap-3">
+        <button
+          onClick={onDiscard}
+          className="text-gray-600 hover:text-gray-900 text-sm font-medium px-4 py-2"
+        >
+          Start Fresh
+        </button>
+        <button
+          onClick={onRestore}
+          className="bg-blue-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-blue-700 shadow-sm"
+        >
+          Restore Session
+        </button>
+      </div>
+    </div>
+  );
+};
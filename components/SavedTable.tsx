@@ -1,40 +1,85 @@
-import React from 'react';
-import { Customer, GeneratedMessage } from '../types';
-
-interface SavedItem {
-  customer: Customer;
-  message: GeneratedMessage;
-}
+import React, { useState } from 'react';
+import { LeadStatus, SavedItem, SendLogEntry, SenderProfile, TemplateChannel } from '../types';
+import { countByStatus, LEAD_STATUSES, statusInfo, statusOf } from '../services/pipelineService';
+import { ConversationThread } from './ConversationThread';
+import { ExportPanel } from './ExportPanel';
+import { ContactExportMenu } from './ContactExportMenu';
+import { EmailExportMenu } from './EmailExportMenu';
+import { ContactSource } from '../services/contactExportService';
+import { lastSend } from '../services/smtpService';
+import { SendLog } from './SendLog';
+import { LLMError } from '../services/llmError';
 
 interface SavedTableProps {
   items: SavedItem[];
+  source: ContactSource;
+  sender: SenderProfile;
   onDelete: (id: string) => void;
+  onStatusChange: (id: string, status: LeadStatus, note: string) => void;
+  onRestore: (id: string) => void;
+  generatingIds: Set<string>;
+  replyErrors: Record<string, LLMError>; // Why the last suggested answer failed, keyed by customer id
+  onAddReply: (id: string, channel: TemplateChannel, body: string) => void;
+  onSuggestReply: (id: string) => void;
+  onUpdateSuggestion: (id: string, body: string) => void;
+  onMarkReplySent: (id: string) => void;
+  sendLog: Record<string, SendLogEntry[]>; // Keyed by customer id
+  sendingIds: Set<string>;
+  onSendEmail: (id: string) => void;
 }
 
-export const SavedTable: React.FC<SavedTableProps> = ({ items, onDelete }) => {
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+export const SavedTable: React.FC<SavedTableProps> = ({
+  items, source, sender, onDelete, onStatusChange, onRestore, generatingIds, replyErrors, onAddReply, onSuggestReply, onUpdateSuggestion, onMarkReplySent, sendLog, sendingIds, onSendEmail
+}) => {
+  const [filter, setFilter] = useState<LeadStatus | 'all'>('all');
+  // Row whose status is being changed, with the pending status and outcome note
+  const [editing, setEditing] = useState<{ id: string; status: LeadStatus; note: string } | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [logId, setLogId] = useState<string | null>(null);
+  const [showExport, setShowExport] = useState(false);
+
   if (items.length === 0) return null;
 
+  const counts = countByStatus(items);
+  const visibleItems = filter === 'all' ? items : items.filter(item => statusOf(item) === filter);
+
+  const handleConfirmStatus = () => {
+    if (!editing) return;
+    onStatusChange(editing.id, editing.status, editing.note);
+    setEditing(null);
+  };
+
   return (
     <div className="mt-12 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
       <div className="p-4 border-b border-gray-200 bg-gray-50 flex justify-between items-center">
         <h2 className="text-lg font-bold text-gray-900">Completed Interactions ({items.length})</h2>
-        <button 
-            className="text-sm text-gray-500 hover:text-gray-700"
-            onClick={() => {
-                const csvContent = "data:text/csv;charset=utf-8," 
-                    + ["Company,Representative,Phone,Email,Notes,Status"]
-                    .concat(items.map(i => `"${i.customer.company}","${i.customer.representative}","${i.customer.phone}","${i.customer.email}","${i.customer.notes}","Processed"`))
-                    .join("\n");
-                const encodedUri = encodeURI(csvContent);
-                const link = document.createElement("a");
-                link.setAttribute("href", encodedUri);
-                link.setAttribute("download", "processed_customers.csv");
-                document.body.appendChild(link);
-                link.click();
-            }}
-        >
-            Export CSV
-        </button>
+        <div className="flex items-center">
+          <ContactExportMenu customers={visibleItems.map(item => item.customer)} source={source} />
+          <EmailExportMenu drafts={visibleItems} sender={sender} campaignName={source.name} />
+          <button
+              className="text-sm text-gray-500 hover:text-gray-700"
+              onClick={() => setShowExport(!showExport)}
+          >
+              Export...
+          </button>
+        </div>
+      </div>
+      {showExport && <ExportPanel items={visibleItems} onClose={() => setShowExport(false)} />}
+      <div className="px-4 py-3 border-b border-gray-200 flex flex-wrap gap-2">
+        {[{ id: 'all' as const, label: 'All', count: items.length }, ...LEAD_STATUSES.map(s => ({ id: s.id, label: s.label, count: counts[s.id] }))].map(option => (
+          <button
+            key={option.id}
+            onClick={() => setFilter(option.id)}
+            className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+              filter === option.id ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            {option.label} ({option.count})
+          </button>
+        ))}
       </div>
       <div className="overflow-x-auto">
         <table className="min-w-full divide-y divide-gray-200">
@@ -49,29 +94,140 @@ export const SavedTable: React.FC<SavedTableProps> = ({ items, onDelete }) => {
             </tr>
           </thead>
           <tbody className="bg-white divide-y divide-gray-200">
-            {items.map(({ customer, message }) => (
-              <tr key={customer.id} className="hover:bg-gray-50">
+            {visibleItems.map((item) => {
+              const { customer } = item;
+              const status = statusInfo(statusOf(item));
+              const lastChange = item.statusHistory?.[item.statusHistory.length - 1];
+              const lastEmail = lastSend(sendLog[customer.id]);
+              return (
+              <React.Fragment key={customer.id}>
+              <tr className="hover:bg-gray-50">
                 <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{customer.company}</td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{customer.representative}</td>
                 <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                   <div className="flex flex-col">
                     <span>{customer.phone}</span>
                     <span className="text-xs text-gray-400">{customer.email}</span>
+                    {lastEmail && (
+                      <button
+                        onClick={() => setLogId(logId === customer.id ? null : customer.id)}
+                        className={`text-xs text-left mt-0.5 ${lastEmail.result === 'sent' ? 'text-green-700' : 'text-red-600'} hover:underline`}
+                        title="Show send log"
+                      >
+                        {lastEmail.result === 'sent' ? '✓ Emailed' : '✕ Send failed'} {formatDate(lastEmail.sentAt)}
+                      </button>
+                    )}
                   </div>
                 </td>
                 <td className="px-6 py-4 text-sm text-gray-500 max-w-xs truncate" title={customer.notes}>{customer.notes}</td>
                 <td className="px-6 py-4 whitespace-nowrap">
-                  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                    message.type === 'email' ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'
-                  }`}>
-                    Processed
-                  </span>
+                  <select
+                    value={status.id}
+                    onChange={(e) => setEditing({ id: customer.id, status: e.target.value as LeadStatus, note: '' })}
+                    className={`text-xs font-semibold rounded-full border-0 py-0.5 pl-2 pr-7 focus:ring-red-500 ${status.badge}`}
+                  >
+                    {LEAD_STATUSES.map(s => (
+                      <option key={s.id} value={s.id}>{s.label}</option>
+                    ))}
+                  </select>
+                  {lastChange && (
+                    <button
+                      onClick={() => setHistoryId(historyId === customer.id ? null : customer.id)}
+                      className="block text-xs text-gray-400 hover:text-gray-700 mt-1 max-w-[12rem] truncate text-left"
+                      title={lastChange.note || 'Show status history'}
+                    >
+                      {formatDate(lastChange.changedAt)}{lastChange.note ? ` · ${lastChange.note}` : ''}
+                    </button>
+                  )}
                 </td>
-                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                  {customer.email && (
+                    <button
+                      onClick={() => onSendEmail(customer.id)}
+                      disabled={sendingIds.has(customer.id)}
+                      className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                      title="Send the email draft over SMTP"
+                    >
+                      {sendingIds.has(customer.id) ? 'Sending...' : 'Send'}
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setConversationId(conversationId === customer.id ? null : customer.id)}
+                    className="text-blue-600 hover:text-blue-900"
+                  >
+                    Conversation{item.thread?.length ? ` (${item.thread.filter(m => !m.suggested).length})` : ''}
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Move ${customer.company || 'this contact'} back to the active list? Its status history, conversation and follow-up progress come back when it is archived again.`)) onRestore(customer.id);
+                    }} className="text-gray-600 hover:text-gray-900" title="Move back to the active list">Reactivate</button>
                   <button onClick={() => onDelete(customer.id)} className="text-red-600 hover:text-red-900">Remove</button>
                 </td>
               </tr>
-            ))}
+              {editing?.id === customer.id && (
+                <tr className="bg-gray-50">
+                  <td colSpan={6} className="px-6 py-3">
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                      <span className="text-sm text-gray-700 whitespace-nowrap">
+                        {status.label} → <strong>{statusInfo(editing.status).label}</strong>
+                      </span>
+                      <input
+                        type="text"
+                        autoFocus
+                        value={editing.note}
+                        onChange={(e) => setEditing({ ...editing, note: e.target.value })}
+                        onKeyDown={(e) => { if (e.key === 'Enter') handleConfirmStatus(); if (e.key === 'Escape') setEditing(null); }}
+                        className="flex-1 text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+                        placeholder="Outcome note (optional), e.g. asked for a quote on 2 pallets"
+                      />
+                      <div className="flex gap-2">
+                        <button onClick={() => setEditing(null)} className="text-xs text-gray-600 hover:text-gray-900 px-3 py-1.5">Cancel</button>
+                        <button onClick={handleConfirmStatus} className="text-xs bg-red-600 text-white px-3 py-1.5 rounded-md hover:bg-red-700 font-medium">Update Status</button>
+                      </div>
+                    </div>
+                  </td>
+                </tr>
+              )}
+              {historyId === customer.id && item.statusHistory && (
+                <tr className="bg-gray-50">
+                  <td colSpan={6} className="px-6 py-3">
+                    <ul className="space-y-1 text-xs text-gray-600">
+                      {item.statusHistory.map((change, i) => (
+                        <li key={i}>
+                          <span className="text-gray-400">{new Date(change.changedAt).toLocaleString()}</span>{' '}
+                          <span className="font-semibold">{statusInfo(change.status).label}</span>
+                          {change.note && <span> · {change.note}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                </tr>
+              )}
+              {logId === customer.id && sendLog[customer.id] && (
+                <tr className="bg-gray-50">
+                  <td colSpan={6} className="px-6 py-3">
+                    <SendLog entries={sendLog[customer.id]} />
+                  </td>
+                </tr>
+              )}
+              {conversationId === customer.id && (
+                <tr className="bg-gray-50">
+                  <td colSpan={6} className="px-6 py-4">
+                    <ConversationThread
+                      item={item}
+                      isGenerating={generatingIds.has(customer.id)}
+                      error={replyErrors[customer.id]}
+                      onAddReply={(channel, body) => onAddReply(customer.id, channel, body)}
+                      onSuggest={() => onSuggestReply(customer.id)}
+                      onUpdateSuggestion={(body) => onUpdateSuggestion(customer.id, body)}
+                      onMarkSent={() => onMarkReplySent(customer.id)}
+                    />
+                  </td>
+                </tr>
+              )}
+              </React.Fragment>
+              );
+            })}
           </tbody>
         </table>
       </div>
@@ -0,0 +1,25 @@
+import React from 'react';
+import { SendLogEntry } from '../types';
+
+interface SendLogProps {
+  entries: SendLogEntry[];
+}
+
+// Every SMTP attempt for a lead, newest first
+export const SendLog: React.FC<SendLogProps> = ({ entries }) => {
+  return (
+    <ul className="space-y-1 text-xs text-gray-600">
+      {[...entries].reverse().map((entry: SendLogEntry, i: number) => (
+        <li key={i} className="flex flex-wrap gap-x-2">
+          <span className="text-gray-400">{new Date(entry.sentAt).toLocaleString()}</span>
+          <span className={`font-semibold ${entry.result === 'sent' ? 'text-green-700' : 'text-red-700'}`}>
+            {entry.result === 'sent' ? 'Sent' : 'Failed'}
+          </span>
+          <span>to {entry.to}</span>
+          {entry.messageId && <span className="font-mono text-gray-400 break-all">{entry.messageId}</span>}
+          <span className={`w-full ${entry.result === 'sent' ? 'text-gray-400' : 'text-red-600'}`}>{entry.response}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
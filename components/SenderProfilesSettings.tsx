@@ -0,0 +1,93 @@
+import React from 'react';
+import { SenderProfile } from '../types';
+import { createSenderProfile, resolveSenderProfile } from '../services/senderProfileService';
+
+interface SenderProfilesSettingsProps {
+  profiles: SenderProfile[];
+  activeProfileId: string;
+  onChange: (profiles: SenderProfile[], activeProfileId: string) => void;
+}
+
+const FIELDS: { key: keyof Omit<SenderProfile, 'id' | 'signature'>; label: string; placeholder: string; dir?: 'rtl' }[] = [
+  { key: 'name', label: 'Name', placeholder: 'e.g. Ahmed Seref' },
+  { key: 'nameArabic', label: 'Arabic Name', placeholder: 'e.g. أحمد شرف', dir: 'rtl' },
+  { key: 'title', label: 'Title', placeholder: 'e.g. Export Executive' },
+  { key: 'phone', label: 'Phone', placeholder: 'e.g. +90 555 123 4567' },
+  { key: 'email', label: 'Email', placeholder: 'e.g. ahmed@akfix.com' },
+];
+
+export const SenderProfilesSettings: React.FC<SenderProfilesSettingsProps> = ({ profiles, activeProfileId, onChange }) => {
+  const active = resolveSenderProfile(profiles, activeProfileId);
+
+  const updateActive = (changes: Partial<SenderProfile>) => {
+    onChange(profiles.map(p => p.id === active.id ? { ...p, ...changes } : p), active.id);
+  };
+
+  const handleAdd = () => {
+    const profile = createSenderProfile();
+    onChange([...profiles, profile], profile.id);
+  };
+
+  const handleRemove = () => {
+    const remaining = profiles.filter(p => p.id !== active.id);
+    if (remaining.length === 0) return;
+    onChange(remaining, remaining[0].id);
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+        <select
+          value={active.id}
+          onChange={(e) => onChange(profiles, e.target.value)}
+          className="flex-1 text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+        >
+          {profiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name || 'Unnamed profile'}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <button
+            onClick={handleAdd}
+            className="text-xs bg-red-600 text-white px-3 py-1.5 rounded-md hover:bg-red-700 font-medium"
+          >
+            + Add Profile
+          </button>
+          <button
+            onClick={handleRemove}
+            disabled={profiles.length <= 1}
+            className="text-xs bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200 disabled:opacity-50 font-medium"
+          >
+            Remove
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {FIELDS.map(field => (
+          <div key={field.key}>
+            <label className="block text-xs font-medium text-gray-700 mb-1">{field.label}</label>
+            <input
+              type="text"
+              dir={field.dir}
+              value={active[field.key]}
+              onChange={(e) => updateActive({ [field.key]: e.target.value })}
+              className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+              placeholder={field.placeholder}
+            />
+          </div>
+        ))}
+        <div className="md:col-span-2">
+          <label className="block text-xs font-medium text-gray-700 mb-1">Email Signature</label>
+          <textarea
+            value={active.signature}
+            onChange={(e) => updateActive({ signature: e.target.value })}
+            rows={4}
+            className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500 font-mono"
+            placeholder="Leave empty to build it from name, title, phone and email"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { SequenceStep, TemplateChannel } from '../types';
+import { createSequenceStep, sortSequence } from '../services/sequenceService';
+
+interface SequenceEditorProps {
+  steps: SequenceStep[];
+  onChange: (steps: SequenceStep[]) => void;
+}
+
+export const SequenceEditor: React.FC<SequenceEditorProps> = ({ steps, onChange }) => {
+  const updateStep = (id: string, changes: Partial<SequenceStep>) => {
+    onChange(steps.map(s => s.id === id ? { ...s, ...changes } : s));
+  };
+
+  const handleAdd = () => {
+    const last = steps[steps.length - 1];
+    onChange([...steps, createSequenceStep((last?.dayOffset || 0) + 7)]);
+  };
+
+  return (
+    <div>
+      <div className="space-y-2">
+        {steps.map((step, index) => (
+          <div key={step.id} className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <div className="flex items-center gap-2 sm:w-56">
+              <span className="text-xs text-gray-500 w-10">Day</span>
+              <input
+                type="number"
+                min={0}
+                value={step.dayOffset}
+                disabled={index === 0}
+                onChange={(e) => updateStep(step.id, { dayOffset: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                onBlur={() => onChange(sortSequence(steps))}
+                className="w-16 text-sm border-gray-300 rounded-md py-1 focus:ring-red-500 focus:border-red-500 disabled:bg-gray-50"
+              />
+              <select
+                value={step.channel}
+                onChange={(e) => updateStep(step.id, { channel: e.target.value as TemplateChannel })}
+                disabled={index === 0}
+                className="text-sm border-gray-300 rounded-md py-1 focus:ring-red-500 focus:border-red-500 disabled:bg-gray-50"
+              >
+                <option value="email">Email</option>
+                <option value="whatsapp">WhatsApp</option>
+              </select>
+            </div>
+            <input
+              type="text"
+              value={step.purpose}
+              onChange={(e) => updateStep(step.id, { purpose: e.target.value })}
+              className="flex-1 text-sm border-gray-300 rounded-md py-1 focus:ring-red-500 focus:border-red-500"
+              placeholder="Goal of this message, e.g. send the price list"
+            />
+            {index === 0 ? (
+              <span className="text-xs text-gray-400 sm:w-16">Card draft</span>
+            ) : (
+              <button
+                onClick={() => onChange(steps.filter(s => s.id !== step.id))}
+                className="text-xs text-gray-500 hover:text-red-600 sm:w-16 text-left"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={handleAdd}
+        className="mt-2 text-xs text-red-600 hover:text-red-800 font-medium"
+      >
+        + Add Step
+      </button>
+    </div>
+  );
+};
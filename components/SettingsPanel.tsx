@@ -0,0 +1,143 @@
+import React from 'react';
+import { AppSettings, Customer, GenerationContext, LLMProviderId, SenderProfile } from '../types';
+import { PROVIDER_OPTIONS } from '../services/llmProvider';
+import { SenderProfilesSettings } from './SenderProfilesSettings';
+import { TemplateLibrarySettings } from './TemplateLibrarySettings';
+import { MailServerSettings } from './MailServerSettings';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+  previewCustomers: Customer[];
+  context: GenerationContext;
+  senderProfile: SenderProfile;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose, previewCustomers, context, senderProfile }) => {
+  const { llm } = settings;
+
+  const updateLLM = (changes: Partial<AppSettings['llm']>) => {
+    onChange({ ...settings, llm: { ...llm, ...changes } });
+  };
+
+  const handleProviderChange = (provider: LLMProviderId) => {
+    const option = PROVIDER_OPTIONS.find(o => o.id === provider);
+    // Reset model and endpoint to the provider's defaults; they rarely carry over
+    updateLLM({
+      provider,
+      model: option?.defaultModel || '',
+      baseUrl: option?.defaultBaseUrl || '',
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-sm font-bold text-gray-900 uppercase tracking-wide">Settings</h2>
+        <button onClick={onClose} className="text-xs text-gray-500 hover:text-gray-700">Close</button>
+      </div>
+
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-3">Sender Profiles</h3>
+      <SenderProfilesSettings
+        profiles={settings.senderProfiles}
+        activeProfileId={settings.activeSenderProfileId}
+        onChange={(senderProfiles, activeSenderProfileId) => onChange({ ...settings, senderProfiles, activeSenderProfileId })}
+      />
+
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mt-8 mb-3">Message Templates</h3>
+      <TemplateLibrarySettings
+        templates={settings.templates}
+        onChange={(templates) => onChange({ ...settings, templates })}
+        previewCustomers={previewCustomers}
+        context={context}
+        sender={senderProfile}
+      />
+
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mt-8 mb-3">AI Provider</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Provider</label>
+          <select
+            value={llm.provider}
+            onChange={(e) => handleProviderChange(e.target.value as LLMProviderId)}
+            className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+          >
+            {PROVIDER_OPTIONS.map(o => (
+              <option key={o.id} value={o.id}>{o.label}</option>
+            ))}
+          </select>
+        </div>
+        {llm.provider !== 'mock' && (
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Model</label>
+            <input
+              type="text"
+              value={llm.model}
+              onChange={(e) => updateLLM({ model: e.target.value })}
+              className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+              placeholder="e.g. gemini-2.5-flash"
+            />
+          </div>
+        )}
+        {llm.provider === 'openai' && (
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Endpoint Base URL</label>
+            <input
+              type="text"
+              value={llm.baseUrl}
+              onChange={(e) => updateLLM({ baseUrl: e.target.value })}
+              className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+              placeholder="e.g. http://localhost:11434/v1"
+            />
+          </div>
+        )}
+        {llm.provider !== 'mock' && (
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">API Key</label>
+            <input
+              type="password"
+              value={llm.apiKey}
+              onChange={(e) => updateLLM({ apiKey: e.target.value })}
+              className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+              placeholder={llm.provider === 'gemini' ? 'Leave empty to use GEMINI_API_KEY' : 'Optional for local servers'}
+            />
+          </div>
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Parallel Drafts</label>
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={llm.concurrency}
+              onChange={(e) => updateLLM({ concurrency: Math.min(10, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+              className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Retries on Rate Limit</label>
+            <input
+              type="number"
+              min={0}
+              max={8}
+              value={llm.maxRetries}
+              onChange={(e) => updateLLM({ maxRetries: Math.min(8, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+              className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+            />
+          </div>
+        </div>
+      </div>
+      {llm.provider !== 'mock' && (
+        <p className="text-xs text-gray-500 mt-3">Generate All runs this many drafts at once. Lower it for local models or tight rate limits.</p>
+      )}
+      {llm.provider === 'mock' && (
+        <p className="text-xs text-gray-500 mt-3">The mock provider returns fixed sample contacts and template drafts without any network access.</p>
+      )}
+
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mt-8 mb-3">Outgoing Mail (SMTP)</h3>
+      <MailServerSettings smtp={settings.smtp} onChange={(smtp) => onChange({ ...settings, smtp })} />
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+import React, { useEffect, useState } from 'react';
+import { Customer, CustomerField, UploadedFile } from '../types';
+import { applyCustomerEdits, confirmCustomerField, CUSTOMER_FIELDS, isLowConfidence, lowConfidenceFields, originalFieldValue } from '../services/customerService';
+import { isPdf, toDataUrl } from '../services/extractionService';
+import { EditableField } from './EditableField';
+
+interface SourceReviewProps {
+  files: UploadedFile[];
+  customers: Customer[]; // Active contacts extracted from these files
+  onUpdate: (customer: Customer) => void;
+  onClose: () => void;
+}
+
+// Browsers won't show a PDF from a long data: URL in a frame, so PDFs get a blob URL
+const usePdfUrl = (file?: UploadedFile): string | null => {
+  const [url, setUrl] = useState<string | null>(null);
+  // Created and revoked in the same effect so a StrictMode re-run never leaves a revoked URL behind
+  useEffect(() => {
+    if (!file || !isPdf(file)) {
+      setUrl(null);
+      return;
+    }
+    const bytes = Uint8Array.from(atob(file.data), c => c.charCodeAt(0));
+    const objectUrl = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [file]);
+  return url;
+};
+
+export const SourceReview: React.FC<SourceReviewProps> = ({ files, customers, onUpdate, onClose }) => {
+  const rowsOf = (file: UploadedFile) => customers
+    .filter(c => c.source?.uploadId === file.id)
+    .sort((a, b) => (a.source!.page - b.source!.page) || ((a.source!.box?.top ?? 0) - (b.source!.box?.top ?? 0)));
+
+  const [fileId, setFileId] = useState<string>(() => (files.find(f => rowsOf(f).length > 0) || files[0])?.id);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const file = files.find(f => f.id === fileId) || files[0];
+  const rows = file ? rowsOf(file) : [];
+  const selected = rows.find(r => r.id === selectedId);
+  const pdfUrl = usePdfUrl(file);
+
+  // Keep the highlighted region in view when a row is picked from the list
+  useEffect(() => {
+    if (selectedId) document.getElementById(`source-box-${selectedId}`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [selectedId]);
+
+  const editProps = (customer: Customer, field: CustomerField) => ({
+    value: customer[field],
+    onSave: (value: string) => onUpdate(applyCustomerEdits(customer, { [field]: value })),
+    lowConfidence: isLowConfidence(customer, field),
+    onConfirm: () => onUpdate(confirmCustomerField(customer, field)),
+    originalValue: originalFieldValue(customer, field),
+  });
+
+  if (!file) return null;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 shadow-sm">
+      <div className="p-4 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h3 className="text-sm font-bold text-gray-900">Check Against Source</h3>
+          <p className="text-xs text-gray-500">Select a row to see where it was read from. Highlighted values were hard to read; click them to fix or confirm.</p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700 text-sm self-start sm:self-auto" title="Close">✕</button>
+      </div>
+
+      {files.length > 1 && (
+        <div className="px-4 py-2 border-b border-gray-200 flex flex-wrap gap-2">
+          {files.map((f, index) => (
+            <button
+              key={f.id}
+              onClick={() => { setFileId(f.id); setSelectedId(null); }}
+              className={`text-xs px-3 py-1 rounded-full border transition-colors ${
+                f.id === file.id ? 'bg-gray-900 text-white border-gray-900' : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {index + 1}. {f.name} ({rowsOf(f).length})
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 p-4">
+        <div className="max-h-[70vh] overflow-auto bg-gray-100 rounded border border-gray-200">
+          {isPdf(file) ? (
+            <div>
+              {/* The browser's PDF viewer can jump to a page but not draw on it, so PDF rows only point to their page */}
+              <iframe
+                key={`${file.id}-${selected?.source?.page || 1}`}
+                src={`${pdfUrl}#page=${selected?.source?.page || 1}`}
+                title={file.name}
+                className="w-full h-[68vh] bg-white"
+              />
+            </div>
+          ) : (
+            <div className="relative">
+              <img src={toDataUrl(file)} alt={file.name} className="w-full block" />
+              {rows.map(row => row.source?.box && (
+                <button
+                  key={row.id}
+                  id={`source-box-${row.id}`}
+                  onClick={() => setSelectedId(row.id)}
+                  title={row.company || row.representative}
+                  className={`absolute rounded-sm transition-colors ${
+                    row.id === selectedId
+                      ? 'border-2 border-red-600 bg-red-500/20'
+                      : lowConfidenceFields(row).length > 0
+                        ? 'border border-amber-500 bg-amber-300/10 hover:bg-amber-300/30'
+                        : 'border border-blue-400/70 hover:bg-blue-300/20'
+                  }`}
+                  style={{
+                    top: `${row.source.box.top * 100}%`,
+                    left: `${row.source.box.left * 100}%`,
+                    width: `${row.source.box.width * 100}%`,
+                    height: `${row.source.box.height * 100}%`,
+                  }}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="max-h-[70vh] overflow-y-auto space-y-2">
+          {rows.length === 0 && (
+            <p className="text-sm text-gray-500 italic">No active contacts came from this file. Rows that were merged into existing contacts are not shown.</p>
+          )}
+          {rows.map(row => {
+            const doubtful = lowConfidenceFields(row).length;
+            return (
+              <div
+                key={row.id}
+                onClick={() => setSelectedId(row.id)}
+                className={`p-3 rounded border cursor-pointer text-sm ${row.id === selectedId ? 'border-red-500 ring-1 ring-red-500 bg-red-50/40' : 'border-gray-200 hover:bg-gray-50'}`}
+              >
+                <div className="flex justify-between items-center mb-1 text-xs text-gray-500">
+                  <span>
+                    {isPdf(file) && `Page ${row.source!.page}`}
+                    {!isPdf(file) && !row.source?.box && 'No position returned for this row'}
+                  </span>
+                  {doubtful > 0 && <span className="text-amber-700 font-medium">{doubtful} to check</span>}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1">
+                  {CUSTOMER_FIELDS.map(({ key, label }) => (
+                    <div key={key} className={`flex gap-2 min-w-0 ${key === 'notes' ? 'sm:col-span-2' : ''}`}>
+                      <span className="text-xs text-gray-400 w-24 shrink-0 pt-0.5">{label}</span>
+                      <EditableField {...editProps(row, key)} placeholder="—" className="text-gray-900 truncate" multiline={key === 'notes'} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
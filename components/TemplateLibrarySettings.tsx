@@ -0,0 +1,205 @@
+import React, { useState, useRef } from 'react';
+import { Customer, GenerationContext, MessageTemplate, SenderProfile, TemplateChannel, DraftLanguage } from '../types';
+import { createTemplate, fillTemplate, placeholderValues, PLACEHOLDERS } from '../services/templateService';
+import { getLanguage, LANGUAGES } from '../services/languageService';
+
+interface TemplateLibrarySettingsProps {
+  templates: MessageTemplate[];
+  onChange: (templates: MessageTemplate[]) => void;
+  previewCustomers: Customer[];
+  context: GenerationContext;
+  sender: SenderProfile;
+}
+
+// Stand-in lead for the preview when the active campaign has no contacts yet
+const SAMPLE_CUSTOMER: Customer = {
+  id: 'sample',
+  company: 'Gulf Building Materials LLC',
+  representative: 'Ahmad Ghazzoul',
+  phone: '+971 50 123 4567',
+  country: 'Dubai, UAE',
+  email: 'ahmad.ghazzoul@gulfbm.ae',
+  website: 'gulfbm.ae',
+  notes: 'Interested in MDF kit and silicone sealants, wants price list',
+};
+
+const templateLabel = (t: MessageTemplate) => `${t.name || 'Untitled'} (${t.channel === 'email' ? 'Email' : 'WhatsApp'}, ${t.language.toUpperCase()})`;
+
+export const TemplateLibrarySettings: React.FC<TemplateLibrarySettingsProps> = ({ templates, onChange, previewCustomers, context, sender }) => {
+  const [activeId, setActiveId] = useState(templates[0]?.id || '');
+  const [previewId, setPreviewId] = useState('');
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+
+  const active = templates.find(t => t.id === activeId) || templates[0];
+  const previewCustomer = previewCustomers.find(c => c.id === previewId) || previewCustomers[0] || SAMPLE_CUSTOMER;
+
+  const updateActive = (changes: Partial<MessageTemplate>) => {
+    if (!active) return;
+    onChange(templates.map(t => t.id === active.id ? { ...t, ...changes } : t));
+  };
+
+  const handleAdd = () => {
+    const template = createTemplate(active?.channel, active?.language);
+    onChange([...templates, template]);
+    setActiveId(template.id);
+  };
+
+  const handleRemove = () => {
+    if (!active) return;
+    const remaining = templates.filter(t => t.id !== active.id);
+    onChange(remaining);
+    setActiveId(remaining[0]?.id || '');
+  };
+
+  // Inserts at the cursor so placeholders can be dropped into the middle of a sentence
+  const insertPlaceholder = (key: string) => {
+    if (!active) return;
+    const token = `{{${key}}}`;
+    const textarea = bodyRef.current;
+    const start = textarea ? textarea.selectionStart : active.body.length;
+    const end = textarea ? textarea.selectionEnd : active.body.length;
+    updateActive({ body: active.body.slice(0, start) + token + active.body.slice(end) });
+  };
+
+  const values = placeholderValues(previewCustomer, context, sender, active?.language || 'en');
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-4">
+        <select
+          value={active?.id || ''}
+          onChange={(e) => setActiveId(e.target.value)}
+          disabled={templates.length === 0}
+          className="flex-1 text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+        >
+          {templates.length === 0 && <option value="">No templates yet</option>}
+          {templates.map(t => (
+            <option key={t.id} value={t.id}>{templateLabel(t)}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <button
+            onClick={handleAdd}
+            className="text-xs bg-red-600 text-white px-3 py-1.5 rounded-md hover:bg-red-700 font-medium"
+          >
+            + Add Template
+          </button>
+          <button
+            onClick={handleRemove}
+            disabled={!active}
+            className="text-xs bg-gray-100 text-gray-700 px-3 py-1.5 rounded-md hover:bg-gray-200 disabled:opacity-50 font-medium"
+          >
+            Remove
+          </button>
+        </div>
+      </div>
+
+      {active && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={active.name}
+                  onChange={(e) => updateActive({ name: e.target.value })}
+                  className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Channel</label>
+                <select
+                  value={active.channel}
+                  onChange={(e) => updateActive({ channel: e.target.value as TemplateChannel })}
+                  className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+                >
+                  <option value="email">Email</option>
+                  <option value="whatsapp">WhatsApp</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Language</label>
+                <select
+                  value={active.language}
+                  onChange={(e) => updateActive({ language: e.target.value as DraftLanguage })}
+                  className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+                >
+                  {LANGUAGES.map(l => (
+                    <option key={l.code} value={l.code}>{l.label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {active.channel === 'email' && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Subject</label>
+                <input
+                  type="text"
+                  value={active.subject}
+                  onChange={(e) => updateActive({ subject: e.target.value })}
+                  dir={getLanguage(active.language).dir}
+                  className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+                />
+              </div>
+            )}
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Message</label>
+              <textarea
+                ref={bodyRef}
+                value={active.body}
+                onChange={(e) => updateActive({ body: e.target.value })}
+                rows={8}
+                dir={getLanguage(active.language).dir}
+                className="w-full text-sm font-mono border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+              />
+              <div className="flex flex-wrap gap-1 mt-1">
+                {PLACEHOLDERS.map(p => (
+                  <button
+                    key={p.key}
+                    onClick={() => insertPlaceholder(p.key)}
+                    className="text-[10px] font-mono bg-gray-100 text-gray-700 px-1.5 py-0.5 rounded hover:bg-gray-200"
+                    title={p.description}
+                  >
+                    {`{{${p.key}}}`}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Use {'{{firstName|there}}'} to fall back to "there" when a value is missing.</p>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label className="block text-xs font-medium text-gray-700">Preview</label>
+              {previewCustomers.length > 0 ? (
+                <select
+                  value={previewCustomer.id}
+                  onChange={(e) => setPreviewId(e.target.value)}
+                  className="text-xs border-gray-300 rounded-md py-0.5 focus:ring-red-500 focus:border-red-500 max-w-[60%]"
+                >
+                  {previewCustomers.map(c => (
+                    <option key={c.id} value={c.id}>{c.company || c.representative || 'Unknown Company'}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-xs text-gray-400">Sample contact</span>
+              )}
+            </div>
+            <div
+              className={`rounded p-3 text-sm text-gray-700 border whitespace-pre-wrap ${
+                active.channel === 'whatsapp' ? 'bg-[#e5ddd5] border-green-200' : 'bg-gray-50 border-gray-200 font-mono'
+              }`}
+              dir={getLanguage(active.language).dir}
+            >
+              {active.channel === 'email' && (
+                <strong className="block text-gray-900 mb-2 border-b pb-1">Subject: {fillTemplate(active.subject, values)}</strong>
+              )}
+              {fillTemplate(active.body, values)}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
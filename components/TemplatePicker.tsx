@@ -0,0 +1,97 @@
+import React from 'react';
+import { DraftLanguage, MessageTemplate, TemplateChannel, TemplateMode, TemplateSelection, TemplateSlot } from '../types';
+import { canFillLocally, DEFAULT_TEMPLATE_SELECTION, planTemplates } from '../services/templateService';
+import { LANGUAGES } from '../services/languageService';
+
+interface TemplatePickerProps {
+  templates: MessageTemplate[];
+  selection?: TemplateSelection;
+  onChange: (selection: TemplateSelection | undefined) => void;
+  inheritLabel?: string; // When set, offers clearing the selection to fall back to a parent (the campaign)
+}
+
+export const TemplatePicker: React.FC<TemplatePickerProps> = ({ templates, selection, onChange, inheritLabel }) => {
+  const current = selection || DEFAULT_TEMPLATE_SELECTION;
+
+  const handleModeChange = (value: string) => {
+    if (value === 'inherit') {
+      onChange(undefined);
+    } else {
+      onChange({ ...current, mode: value as TemplateMode });
+    }
+  };
+
+  // Only languages the library has templates for are worth a row
+  const languages = LANGUAGES.filter(l => templates.some(t => t.language === l.code));
+  const locked = !!inheritLabel && !selection;
+
+  // Filling needs both channels; a language with only one template picked still goes to the AI
+  const halfFilled = current.mode === 'fill' ? languages.filter(l => {
+    const plan = planTemplates(templates, current, l.code);
+    return (plan.email || plan.whatsapp) && !canFillLocally(plan);
+  }) : [];
+
+  const renderSlot = (channel: TemplateChannel, language: DraftLanguage) => {
+    const slot: TemplateSlot = `${channel}:${language}`;
+    const options = templates.filter(t => t.channel === channel && t.language === language);
+    return (
+      <select
+        value={current.templateIds[slot] || ''}
+        onChange={(e) => onChange({ ...current, templateIds: { ...current.templateIds, [slot]: e.target.value || undefined } })}
+        disabled={locked}
+        className="w-full text-sm border-gray-300 rounded-md py-1 focus:ring-red-500 focus:border-red-500 disabled:bg-gray-50 disabled:text-gray-400"
+      >
+        <option value="">None (AI writes freely)</option>
+        {options.map(t => (
+          <option key={t.id} value={t.id}>{t.name || 'Untitled'}</option>
+        ))}
+      </select>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Template Use</label>
+        <select
+          value={selection ? selection.mode : inheritLabel ? 'inherit' : current.mode}
+          onChange={(e) => handleModeChange(e.target.value)}
+          className="w-full text-sm border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+        >
+          {inheritLabel && <option value="inherit">{inheritLabel}</option>}
+          <option value="style">AI, styled by template</option>
+          <option value="fill">Fill template (no AI)</option>
+        </select>
+      </div>
+      <div className="md:col-span-2">
+        {languages.length === 0 ? (
+          <p className="text-xs text-gray-500 mt-6">No templates in the library yet. Add some in Settings.</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-700">
+                <th className="font-medium pb-1 w-28">Language</th>
+                <th className="font-medium pb-1 pr-2">Email</th>
+                <th className="font-medium pb-1">WhatsApp</th>
+              </tr>
+            </thead>
+            <tbody>
+              {languages.map(l => (
+                <tr key={l.code}>
+                  <td className="py-0.5 text-gray-600">{l.flag} {l.label}</td>
+                  <td className="py-0.5 pr-2">{renderSlot('email', l.code)}</td>
+                  <td className="py-0.5">{renderSlot('whatsapp', l.code)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {halfFilled.length > 0 && (
+          <p className="text-xs text-amber-700 mt-2">
+            Filling needs both an email and a WhatsApp template. {halfFilled.map(l => l.label).join(', ')} {halfFilled.length === 1 ? 'has' : 'have'} only one, so the AI writes those drafts, styled by it.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { WhatsappLogEntry, WhatsappOutcome } from '../types';
+import { textDirection } from '../services/languageService';
+import {
+  countOutcomes, lastOutcome, outcomeInfo, wasMessaged, WHATSAPP_LINK_TYPES, WHATSAPP_OUTCOMES, whatsappLink, WhatsappDraft, WhatsappLinkType, whatsappNumbers, whatsappText
+} from '../services/whatsappService';
+
+interface WhatsappSessionProps {
+  leads: WhatsappDraft[]; // Active leads with a draft
+  log: Record<string, WhatsappLogEntry[]>; // Keyed by customer id
+  onRecord: (customerId: string, entry: WhatsappLogEntry) => void;
+  onClose: () => void;
+}
+
+type Phase = 'setup' | 'running' | 'done';
+
+export const WhatsappSession: React.FC<WhatsappSessionProps> = ({ leads, log, onRecord, onClose }) => {
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [linkType, setLinkType] = useState<WhatsappLinkType>('web');
+  const [includeMessaged, setIncludeMessaged] = useState(false);
+  // The queue is fixed when the session starts so recording outcomes doesn't reshuffle it
+  const [queue, setQueue] = useState<WhatsappDraft[]>([]);
+  const [index, setIndex] = useState(0);
+  const [phoneIndex, setPhoneIndex] = useState(0);
+  const [opened, setOpened] = useState(false);
+  const [results, setResults] = useState<{ lead: WhatsappDraft; entry: WhatsappLogEntry }[]>([]);
+
+  const reachable = leads.filter(lead => whatsappNumbers(lead.customer).length > 0);
+  const messagedCount = reachable.filter(lead => wasMessaged(log[lead.customer.id])).length;
+  const candidates = includeMessaged ? reachable : reachable.filter(lead => !wasMessaged(log[lead.customer.id]));
+
+  // Edits made on the card during the session still apply
+  const current = leads.find(lead => lead.customer.id === queue[index]?.customer.id) || queue[index];
+  const numbers = current ? whatsappNumbers(current.customer) : [];
+  const phone = numbers[Math.min(phoneIndex, numbers.length - 1)];
+
+  const handleStart = () => {
+    setQueue(candidates);
+    setIndex(0);
+    setPhoneIndex(0);
+    setOpened(false);
+    setResults([]);
+    setPhase('running');
+  };
+
+  const handleOpen = () => {
+    const url = whatsappLink(phone, whatsappText(current.message), linkType);
+    // wa.me gets its own tab; app schemes hand off to WhatsApp without leaving the page
+    if (linkType === 'web') {
+      window.open(url, '_blank', 'noopener');
+    } else {
+      window.location.href = url;
+    }
+    setOpened(true);
+  };
+
+  const handleOutcome = (outcome: WhatsappOutcome) => {
+    const entry: WhatsappLogEntry = { at: Date.now(), phone: phone?.e164 || current.customer.phone, outcome };
+    onRecord(current.customer.id, entry);
+    setResults(prev => [...prev, { lead: current, entry }]);
+    setPhoneIndex(0);
+    setOpened(false);
+    if (index + 1 >= queue.length) {
+      setPhase('done');
+    } else {
+      setIndex(index + 1);
+    }
+  };
+
+  if (phase === 'setup') {
+    return (
+      <div className="bg-white p-4 rounded-lg border border-green-200 shadow-sm">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-sm font-bold text-gray-900">WhatsApp Session</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700 text-sm" title="Close">✕</button>
+        </div>
+        <p className="text-sm text-gray-600 mb-3">
+          Walk through the leads one at a time: open the chat, send the draft, then record what happened.
+        </p>
+        <div className="flex flex-wrap gap-4 text-sm text-gray-700 mb-3">
+          {WHATSAPP_LINK_TYPES.map(type => (
+            <label key={type.id} className="flex items-center gap-1.5" title={type.description}>
+              <input type="radio" checked={linkType === type.id} onChange={() => setLinkType(type.id)} className="text-green-600 focus:ring-green-500" />
+              {type.label}
+            </label>
+          ))}
+        </div>
+        {messagedCount > 0 && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 mb-3">
+            <input
+              type="checkbox"
+              checked={includeMessaged}
+              onChange={(e) => setIncludeMessaged(e.target.checked)}
+              className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+            />
+            Include {messagedCount} lead{messagedCount === 1 ? '' : 's'} already messaged
+          </label>
+        )}
+        {leads.length > reachable.length && (
+          <p className="text-xs text-amber-700 mb-3">
+            {leads.length - reachable.length} lead{leads.length - reachable.length === 1 ? ' has' : 's have'} no usable phone number and will be left out.
+          </p>
+        )}
+        <button
+          onClick={handleStart}
+          disabled={candidates.length === 0}
+          className="bg-green-600 text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-50 shadow-sm"
+        >
+          Start with {candidates.length} Lead{candidates.length === 1 ? '' : 's'}
+        </button>
+      </div>
+    );
+  }
+
+  if (phase === 'done') {
+    const counts = countOutcomes(results.map(r => r.entry));
+    const wrongNumbers = results.filter(r => r.entry.outcome === 'wrongNumber');
+    const notReached = queue.length - results.length;
+    return (
+      <div className="bg-white p-4 rounded-lg border border-green-200 shadow-sm">
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-sm font-bold text-gray-900">WhatsApp Session Summary</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-700 text-sm" title="Close">✕</button>
+        </div>
+        <div className="flex flex-wrap gap-2 mb-3">
+          {WHATSAPP_OUTCOMES.map(o => (
+            <span key={o.id} className={`text-xs font-semibold px-3 py-1 rounded-full ${o.badge}`}>{o.label}: {counts[o.id]}</span>
+          ))}
+          {notReached > 0 && <span className="text-xs font-semibold px-3 py-1 rounded-full bg-amber-100 text-amber-800">Not reached: {notReached}</span>}
+        </div>
+        {wrongNumbers.length > 0 && (
+          <div className="text-xs text-gray-600 mb-3">
+            <p className="font-medium text-red-800 mb-1">Numbers to check:</p>
+            <ul className="space-y-0.5">
+              {wrongNumbers.map(({ lead, entry }) => (
+                <li key={lead.customer.id}>{lead.customer.company || lead.customer.representative} · <span className="font-mono">{entry.phone}</span></li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <button onClick={() => setPhase('setup')} className="text-sm text-gray-600 hover:text-gray-900 px-3 py-1.5">New Session</button>
+          <button onClick={onClose} className="text-sm bg-gray-900 text-white px-4 py-1.5 rounded-md hover:bg-gray-800 font-medium">Done</button>
+        </div>
+      </div>
+    );
+  }
+
+  const { customer, message } = current;
+  const text = whatsappText(message);
+  const previous = lastOutcome(log[customer.id]);
+  return (
+    <div className="bg-white p-4 rounded-lg border border-green-200 shadow-sm">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-sm text-gray-700">
+          <span className="font-medium">Lead {index + 1} of {queue.length}</span>
+          {results.length > 0 && <span className="text-gray-500"> · {countOutcomes(results.map(r => r.entry)).sent} sent so far</span>}
+        </span>
+        <button onClick={() => setPhase('done')} className="text-xs text-gray-600 hover:text-red-600 font-medium">End Session</button>
+      </div>
+      <div className="w-full bg-gray-100 rounded-full h-2 overflow-hidden mb-4">
+        <div className="h-2 rounded-full bg-green-600 transition-all" style={{ width: `${Math.round((index / queue.length) * 100)}%` }} />
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="text-sm space-y-1">
+          <p className="font-bold text-gray-900">{customer.company || 'Unknown Company'}</p>
+          {customer.representative && <p className="text-gray-600">{customer.representative}</p>}
+          {customer.country && <p className="text-gray-500">{customer.country}</p>}
+          {numbers.length > 1 ? (
+            <select
+              value={phoneIndex}
+              onChange={(e) => { setPhoneIndex(parseInt(e.target.value, 10)); setOpened(false); }}
+              className="mt-2 text-sm font-mono border-gray-300 rounded-md focus:ring-green-500 focus:border-green-500"
+            >
+              {numbers.map((n, i) => <option key={i} value={i}>{n.e164}</option>)}
+            </select>
+          ) : (
+            <p className="font-mono text-gray-900 pt-1">{phone?.e164 || customer.phone || 'No phone number'}</p>
+          )}
+          {phone && phone.status !== 'valid' && <p className="text-xs text-amber-700">{phone.message}</p>}
+          {previous && (
+            <p className="text-xs text-gray-500 pt-1">
+              Last time: {outcomeInfo(previous.outcome).label}, {new Date(previous.at).toLocaleDateString()}
+            </p>
+          )}
+        </div>
+        <div
+          className="bg-[#e5ddd5] p-3 rounded text-sm text-gray-800 whitespace-pre-wrap max-h-48 overflow-y-auto"
+          dir={textDirection(message.language, text)}
+        >
+          {text}
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2 mt-4">
+        <button
+          onClick={handleOpen}
+          disabled={!phone}
+          className={`flex-1 px-4 py-2 rounded-md text-sm font-medium disabled:opacity-50 ${opened ? 'bg-green-50 text-green-700 border border-green-200 hover:bg-green-100' : 'bg-green-600 text-white hover:bg-green-700'}`}
+        >
+          {opened ? 'Open Again' : `Open WhatsApp (${WHATSAPP_LINK_TYPES.find(t => t.id === linkType)!.label})`}
+        </button>
+        {WHATSAPP_OUTCOMES.map(o => (
+          <button
+            key={o.id}
+            onClick={() => handleOutcome(o.id)}
+            className={`px-4 py-2 rounded-md text-sm font-medium border transition-opacity ${o.badge} ${opened ? '' : 'opacity-60'} hover:opacity-100`}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import { SmtpSettings } from '../types';
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+  raw: string; // Complete RFC 5322 message, CRLF line endings
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+export class SmtpError extends Error {
+  code?: number;
+
+  constructor(message: string, code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+    this.code = code;
+  }
+}
+
+const TIMEOUT_MS = 30000;
+
+// Envelope addresses go straight into MAIL FROM / RCPT TO, so a CR or LF would start a new SMTP command
+export const isEnvelopeAddress = (address: string): boolean =>
+  /^[^\s<>@\x00-\x1f\x7f]+@[^\s<>@\x00-\x1f\x7f]+$/.test(address);
+
+const connect = (settings: SmtpSettings): Promise<net.Socket> => new Promise((resolve, reject) => {
+  const socket = settings.security === 'tls'
+    ? tls.connect({ host: settings.host, port: settings.port, servername: settings.host }, () => resolve(socket))
+    : net.connect({ host: settings.host, port: settings.port }, () => resolve(socket));
+  socket.once('error', reject);
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new SmtpError(`No answer from ${settings.host}:${settings.port} within ${TIMEOUT_MS / 1000}s.`)));
+});
+
+// Reads multi-line replies ("250-..." continues, "250 ..." ends) off whichever socket is current
+const createSession = (initial: net.Socket) => {
+  let socket = initial;
+  let buffer = '';
+  let lines: string[] = [];
+  const replies: SmtpReply[] = [];
+  const waiters: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void }[] = [];
+  let failure: Error | null = null;
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let index: number;
+    while ((index = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+      lines.push(line.slice(4));
+      if (line[3] !== '-') {
+        replies.push({ code: parseInt(line.slice(0, 3), 10), text: lines.join('\n') });
+        lines = [];
+      }
+    }
+    while (replies.length > 0 && waiters.length > 0) waiters.shift()!.resolve(replies.shift()!);
+  };
+
+  const onError = (error: Error) => {
+    failure = error;
+    waiters.splice(0).forEach(w => w.reject(error));
+  };
+  const onClose = () => onError(failure || new SmtpError('The SMTP server closed the connection.'));
+
+  const attach = (next: net.Socket) => {
+    socket.off('data', onData).off('error', onError).off('close', onClose);
+    socket = next;
+    socket.on('data', onData).on('error', onError).on('close', onClose);
+  };
+  initial.on('data', onData).on('error', onError).on('close', onClose);
+
+  const read = (): Promise<SmtpReply> => {
+    if (replies.length > 0) return Promise.resolve(replies.shift()!);
+    if (failure) return Promise.reject(failure);
+    return new Promise((resolve, reject) => waiters.push({ resolve, reject }));
+  };
+
+  const expect = async (codes: number[], what: string): Promise<SmtpReply> => {
+    const reply = await read();
+    if (!codes.includes(reply.code)) throw new SmtpError(`${what} failed: ${reply.code} ${reply.text}`, reply.code);
+    return reply;
+  };
+
+  const command = (line: string, codes: number[], what: string = line.split(' ')[0]): Promise<SmtpReply> => {
+    socket.write(`${line}\r\n`);
+    return expect(codes, what);
+  };
+
+  return {
+    get socket() { return socket; },
+    attach,
+    expect,
+    command,
+    write: (data: string) => socket.write(data),
+  };
+};
+
+// Lines starting with a dot get a second one so they aren't read as the end of DATA (RFC 5321 4.5.2)
+const dotStuff = (raw: string): string => {
+  return raw.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+};
+
+const authenticate = async (session: ReturnType<typeof createSession>, settings: SmtpSettings, capabilities: string) => {
+  const methods = capabilities.match(/^AUTH[ =](.*)$/im)?.[1].toUpperCase().split(/\s+/) || [];
+  if (methods.includes('PLAIN') || !methods.includes('LOGIN')) {
+    const token = Buffer.from(`\0${settings.username}\0${settings.password}`).toString('base64');
+    await session.command(`AUTH PLAIN ${token}`, [235], 'Login');
+    return;
+  }
+  await session.command('AUTH LOGIN', [334], 'Login');
+  await session.command(Buffer.from(settings.username).toString('base64'), [334], 'Login');
+  await session.command(Buffer.from(settings.password).toString('base64'), [235], 'Login');
+};
+
+// Opens a session up to the point where mail can be sent: greeting, EHLO, optional STARTTLS and login
+const openSession = async (settings: SmtpSettings) => {
+  const session = createSession(await connect(settings));
+  const hostname = os.hostname() || 'localhost';
+  try {
+    await session.expect([220], 'Connection');
+    let ehlo = await session.command(`EHLO ${hostname}`, [250], 'EHLO');
+
+    if (settings.security === 'starttls') {
+      await session.command('STARTTLS', [220]);
+      const secure = tls.connect({ socket: session.socket, servername: settings.host });
+      // Attached before the handshake so a failed upgrade is still closed below
+      session.attach(secure);
+      await new Promise<void>((resolve, reject) => {
+        secure.once('secureConnect', resolve);
+        secure.once('error', reject);
+      });
+      ehlo = await session.command(`EHLO ${hostname}`, [250], 'EHLO');
+    }
+
+    if (settings.username) await authenticate(session, settings, ehlo.text);
+    return session;
+  } catch (error) {
+    // The caller never gets the session, so nothing else would close the socket before the idle timeout
+    session.socket.destroy();
+    throw error;
+  }
+};
+
+const close = async (session: ReturnType<typeof createSession>) => {
+  try {
+    await session.command('QUIT', [221]);
+  } catch {
+    // The message is already accepted or the error already reported; a failed goodbye changes nothing
+  }
+  session.socket.destroy();
+};
+
+export const verifySmtp = async (settings: SmtpSettings): Promise<string> => {
+  const session = await openSession(settings);
+  await close(session);
+  return `Connected to ${settings.host}:${settings.port}${settings.username ? ` and logged in as ${settings.username}` : ''}.`;
+};
+
+// Returns the server's final reply, which usually contains its queue id
+export const sendSmtp = async (settings: SmtpSettings, envelope: SmtpEnvelope): Promise<string> => {
+  const invalid = [envelope.from, ...envelope.to].find(address => !isEnvelopeAddress(address));
+  if (invalid !== undefined) throw new SmtpError(`Not a valid email address: ${JSON.stringify(invalid)}`);
+  const session = await openSession(settings);
+  try {
+    await session.command(`MAIL FROM:<${envelope.from}>`, [250], 'Sender');
+    for (const recipient of envelope.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251], `Recipient ${recipient}`);
+    }
+    await session.command('DATA', [354]);
+    const body = dotStuff(envelope.raw);
+    session.write(`${body}${body.endsWith('\r\n') ? '' : '\r\n'}.\r\n`);
+    const accepted = await session.expect([250], 'Message');
+    return `${accepted.code} ${accepted.text}`;
+  } finally {
+    await close(session);
+  }
+};
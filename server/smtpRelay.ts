@@ -0,0 +1,123 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+import { SmtpSecurity, SmtpSettings } from '../types';
+import { isEnvelopeAddress, SmtpEnvelope, sendSmtp, verifySmtp } from './smtpClient';
+
+type Middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+const SECURITY_MODES: SmtpSecurity[] = ['none', 'starttls', 'tls'];
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+const isLoopbackAddress = (address?: string): boolean =>
+  !!address && (address === '::1' || /^(::ffff:)?127\./.test(address));
+
+// Only the app itself may use the relay: a page from another site, or another machine on the network,
+// must not be able to send mail or reach arbitrary host:port pairs through it
+const rejectReason = (req: IncomingMessage): string | null => {
+  if (!isLoopbackAddress(req.socket.remoteAddress)) return 'The SMTP relay only accepts requests from this machine.';
+  const host = req.headers.host || '';
+  if (!LOOPBACK_HOSTS.includes(host.replace(/:\d+$/, ''))) return 'Open the app on localhost to send mail.';
+  if (req.headers.origin !== `http://${host}` && req.headers.origin !== `https://${host}`) return 'Requests from other sites are not accepted.';
+  if (!/^application\/json\s*(;|$)/i.test(req.headers['content-type'] || '')) return 'Expected a JSON request.';
+  return null;
+};
+
+// A settings object plus one rendered message is a few kilobytes; anything far larger is not from the app
+const MAX_BODY_BYTES = 1024 * 1024;
+
+class BodyTooLargeError extends Error {}
+
+const readJson = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    reject(new BodyTooLargeError());
+    return;
+  }
+  let body = '';
+  let bytes = 0;
+  req.setEncoding('utf8');
+  req.on('data', (chunk: string) => {
+    bytes += Buffer.byteLength(chunk);
+    if (bytes > MAX_BODY_BYTES) {
+      req.removeAllListeners('data');
+      reject(new BodyTooLargeError());
+      return;
+    }
+    body += chunk;
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(body || '{}'));
+    } catch (error) {
+      reject(error);
+    }
+  });
+  req.on('error', reject);
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isSettings = (value: unknown): value is SmtpSettings =>
+  isRecord(value)
+  && typeof value.host === 'string' && value.host.trim() !== ''
+  && typeof value.port === 'number' && Number.isInteger(value.port) && value.port > 0 && value.port < 65536
+  && SECURITY_MODES.includes(value.security as SmtpSecurity)
+  && typeof value.username === 'string'
+  && typeof value.password === 'string';
+
+const isEnvelope = (value: unknown): value is SmtpEnvelope =>
+  isRecord(value)
+  && typeof value.from === 'string' && value.from !== ''
+  && Array.isArray(value.to) && value.to.length > 0 && value.to.every(to => typeof to === 'string')
+  && typeof value.raw === 'string' && value.raw !== '';
+
+const reply = (res: ServerResponse, status: number, payload: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(payload));
+};
+
+const smtpMiddleware: Middleware = async (req, res, next) => {
+  const action = req.url?.split('?')[0];
+  if (req.method !== 'POST' || (action !== '/send' && action !== '/verify')) return next();
+
+  const rejected = rejectReason(req);
+  if (rejected) return reply(res, 403, { error: rejected });
+
+  try {
+    const body = await readJson(req);
+    const settings = isRecord(body) ? body.settings : undefined;
+    const envelope = isRecord(body) ? body.envelope : undefined;
+    if (!isSettings(settings)) return reply(res, 400, { error: 'SMTP host, port and encryption are required.' });
+
+    if (action === '/verify') {
+      reply(res, 200, { response: await verifySmtp(settings) });
+      return;
+    }
+    if (!isEnvelope(envelope)) {
+      return reply(res, 400, { error: 'Sender, recipient and message are required.' });
+    }
+    const invalid = [envelope.from, ...envelope.to].find(address => !isEnvelopeAddress(address));
+    if (invalid !== undefined) return reply(res, 400, { error: `Not a valid email address: ${JSON.stringify(invalid)}` });
+    reply(res, 200, { response: await sendSmtp(settings, envelope) });
+  } catch (error) {
+    if (error instanceof BodyTooLargeError) {
+      // Answer first, then drop the connection so the rest of the upload is never read
+      res.setHeader('Connection', 'close');
+      res.on('finish', () => req.destroy());
+      return reply(res, 413, { error: 'Request is too large.' });
+    }
+    console.error("SMTP relay error:", error);
+    reply(res, 502, { error: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+// Browsers can't open SMTP connections, so the dev and preview servers relay mail for the app
+export const smtpRelay = (): Plugin => ({
+  name: 'smtp-relay',
+  configureServer: server => {
+    server.middlewares.use('/api/smtp', smtpMiddleware);
+  },
+  configurePreviewServer: server => {
+    server.middlewares.use('/api/smtp', smtpMiddleware);
+  },
+});
@@ -0,0 +1,36 @@
+import { Campaign, GenerationContext } from "../types";
+import { DEFAULT_SEQUENCE, resolveSequence } from "./sequenceService";
+
+export const DEFAULT_CONTEXT: GenerationContext = {
+  senderCompany: "Akkim Construction Chemicals",
+  exhibitionName: "Canton Fair",
+  exhibitionLocation: "Guangzhou, China"
+};
+
+export const createCampaign = (
+  context: GenerationContext = DEFAULT_CONTEXT,
+  name: string = context.exhibitionName || 'New Campaign'
+): Campaign => ({
+  id: `camp-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  name,
+  context: { ...context },
+  customers: [],
+  generatedMessages: {},
+  savedItems: [],
+  archived: false,
+  createdAt: Date.now(),
+  sequence: DEFAULT_SEQUENCE.map(step => ({ ...step })),
+});
+
+// Copies the configuration only; leads belong to the fair they were collected at
+export const duplicateCampaign = (source: Campaign): Campaign => ({
+  ...createCampaign(source.context, `${source.name} (copy)`),
+  templateSelection: source.templateSelection,
+  sequence: resolveSequence(source).map(step => ({ ...step })),
+});
+
+// Falls back to the first non-archived campaign when the requested one is gone or archived
+export const resolveActiveCampaign = (campaigns: Campaign[], activeId: string): Campaign | undefined => {
+  const active = campaigns.find(c => c.id === activeId && !c.archived);
+  return active || campaigns.find(c => !c.archived) || campaigns[0];
+};
@@ -0,0 +1,161 @@
+import { Campaign, Customer } from "../types";
+import { detectCountry } from "./countryService";
+import { normalizePhone, splitPhoneNumbers } from "./phoneService";
+import { nameParts } from "./templateService";
+import { downloadBlob, fileSafe, toCsv } from "./exportService";
+
+export type VCardVersion = '3.0' | '4.0';
+export type CrmLayout = 'google' | 'hubspot' | 'salesforce';
+
+// Where the leads were met; goes into notes, groups and lead source fields
+export type ContactSource = Pick<Campaign, 'name' | 'context'>;
+
+export const CRM_LAYOUTS: { id: CrmLayout; label: string }[] = [
+  { id: 'google', label: 'Google Contacts' },
+  { id: 'hubspot', label: 'HubSpot' },
+  { id: 'salesforce', label: 'Salesforce (Leads)' },
+];
+
+// Phone numbers in E.164 where they could be normalised, as typed otherwise
+const phonesOf = (customer: Customer): string[] => {
+  return splitPhoneNumbers(customer.phone).map(p => normalizePhone(p, customer.country).e164 || p.trim());
+};
+
+const countryName = (customer: Customer): string => detectCountry(customer.country)?.name || customer.country;
+
+const websiteUrl = (website: string): string => {
+  if (!website) return '';
+  return /^https?:\/\//i.test(website) ? website : `https://${website}`;
+};
+
+const sourceNote = (customer: Customer, source: ContactSource): string => {
+  const { exhibitionName, exhibitionLocation } = source.context;
+  const met = exhibitionName ? `Met at ${exhibitionName}${exhibitionLocation ? `, ${exhibitionLocation}` : ''}.` : '';
+  const location = customer.country && countryName(customer) !== customer.country ? `Address: ${customer.country}.` : '';
+  return [met, location, customer.notes].filter(Boolean).join('\n');
+};
+
+// RFC 6350 text escaping: backslash, comma, semicolon and line breaks
+const escapeVCard = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/,/g, '\\,').replace(/;/g, '\\;').replace(/\r?\n/g, '\\n');
+};
+
+const utf8Length = (char: string) => new TextEncoder().encode(char).length;
+
+// Lines longer than 75 octets of UTF-8 continue on the next line after a single space (RFC 6350 3.2);
+// a line is only broken between characters, never inside one
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    // Continuation lines spend one octet on the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+export const toVCard = (customer: Customer, source: ContactSource, version: VCardVersion = '3.0'): string => {
+  const { given, family } = nameParts(customer.representative);
+  const fullName = customer.representative.trim() || customer.company || 'Unknown';
+  const v4 = version === '4.0';
+
+  const lines = [
+    'BEGIN:VCARD',
+    `VERSION:${version}`,
+    `FN:${escapeVCard(fullName)}`,
+    `N:${escapeVCard(family)};${escapeVCard(given)};;;`,
+  ];
+  if (customer.company) lines.push(`ORG:${escapeVCard(customer.company)}`);
+  phonesOf(customer).forEach(phone => {
+    lines.push(v4 ? `TEL;TYPE=work;VALUE=uri:tel:${phone.replace(/\s/g, '')}` : `TEL;TYPE=WORK,VOICE:${phone}`);
+  });
+  if (customer.email) lines.push(v4 ? `EMAIL;TYPE=work:${customer.email}` : `EMAIL;TYPE=INTERNET,WORK:${customer.email}`);
+  if (customer.website) lines.push(`URL:${websiteUrl(customer.website)}`);
+  if (customer.country) lines.push(`ADR;TYPE=${v4 ? 'work' : 'WORK'}:;;;;;;${escapeVCard(countryName(customer))}`);
+  const note = sourceNote(customer, source);
+  if (note) lines.push(`NOTE:${escapeVCard(note)}`);
+  if (source.name) lines.push(`CATEGORIES:${escapeVCard(source.name)}`);
+  lines.push('END:VCARD');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const downloadVCards = (customers: Customer[], source: ContactSource, version: VCardVersion, perContact: boolean) => {
+  const download = (text: string, name: string) => downloadBlob(new Blob([text], { type: 'text/vcard;charset=utf-8' }), `${name}.vcf`);
+
+  if (!perContact) {
+    download(customers.map(c => toVCard(c, source, version)).join(''), fileSafe(source.name || 'contacts'));
+    return;
+  }
+  // Browsers drop downloads that fire in the same tick, so space them out
+  customers.forEach((customer, index) => {
+    setTimeout(() => download(toVCard(customer, source, version), fileSafe(customer.company || customer.representative)), index * 250);
+  });
+};
+
+// Column layouts of each CRM's contact/lead import template
+const CRM_COLUMNS: Record<CrmLayout, { header: string; value: (c: Customer, source: ContactSource) => string }[]> = {
+  google: [
+    { header: 'Name', value: c => c.representative || c.company },
+    { header: 'Given Name', value: c => nameParts(c.representative).given },
+    { header: 'Family Name', value: c => nameParts(c.representative).family },
+    { header: 'Notes', value: sourceNote },
+    { header: 'Group Membership', value: (_, s) => ['* myContacts', s.name].filter(Boolean).join(' ::: ') },
+    { header: 'E-mail 1 - Type', value: c => c.email ? '* Work' : '' },
+    { header: 'E-mail 1 - Value', value: c => c.email },
+    { header: 'Phone 1 - Type', value: c => c.phone ? 'Work' : '' },
+    { header: 'Phone 1 - Value', value: c => phonesOf(c).join(' ::: ') },
+    { header: 'Address 1 - Type', value: c => c.country ? 'Work' : '' },
+    { header: 'Address 1 - Country', value: c => c.country ? countryName(c) : '' },
+    { header: 'Organization 1 - Name', value: c => c.company },
+    { header: 'Website 1 - Type', value: c => c.website ? 'Work' : '' },
+    { header: 'Website 1 - Value', value: c => websiteUrl(c.website) },
+  ],
+  hubspot: [
+    { header: 'First Name', value: c => nameParts(c.representative).given },
+    { header: 'Last Name', value: c => nameParts(c.representative).family },
+    { header: 'Email', value: c => c.email },
+    { header: 'Phone Number', value: c => phonesOf(c)[0] || '' },
+    { header: 'Mobile Phone Number', value: c => phonesOf(c)[1] || '' },
+    { header: 'Company Name', value: c => c.company },
+    { header: 'Website URL', value: c => websiteUrl(c.website) },
+    { header: 'Country/Region', value: c => c.country ? countryName(c) : '' },
+    { header: 'Lifecycle Stage', value: () => 'lead' },
+    { header: 'Trade Show', value: (_, s) => s.context.exhibitionName || s.name },
+    { header: 'Notes', value: sourceNote },
+  ],
+  salesforce: [
+    // Last Name and Company are required on Salesforce leads; a single name goes into Last Name
+    { header: 'First Name', value: c => nameParts(c.representative).family ? nameParts(c.representative).given : '' },
+    { header: 'Last Name', value: c => nameParts(c.representative).family || nameParts(c.representative).given || '[not provided]' },
+    { header: 'Company', value: c => c.company || '[not provided]' },
+    { header: 'Email', value: c => c.email },
+    { header: 'Phone', value: c => phonesOf(c)[0] || '' },
+    { header: 'Mobile', value: c => phonesOf(c)[1] || '' },
+    { header: 'Website', value: c => websiteUrl(c.website) },
+    { header: 'Country', value: c => c.country ? countryName(c) : '' },
+    { header: 'Lead Source', value: () => 'Trade Show' },
+    { header: 'Lead Status', value: () => 'Open - Not Contacted' },
+    { header: 'Description', value: sourceNote },
+  ],
+};
+
+export const toCrmRows = (customers: Customer[], source: ContactSource, layout: CrmLayout): string[][] => {
+  const columns = CRM_COLUMNS[layout];
+  return [columns.map(c => c.header), ...customers.map(customer => columns.map(c => c.value(customer, source)))];
+};
+
+export const downloadCrmCsv = (customers: Customer[], source: ContactSource, layout: CrmLayout) => {
+  const csv = '\uFEFF' + toCsv(toCrmRows(customers, source, layout));
+  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${fileSafe(source.name || 'contacts')}-${layout}.csv`);
+};
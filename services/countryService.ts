@@ -0,0 +1,117 @@
+export interface CountryInfo {
+  code: string;         // ISO 3166-1 alpha-2
+  name: string;
+  dialCode: string;     // Without '+'
+  trunkPrefix: string;  // Dialled before national numbers inside the country ('' if none)
+  nationalLengths: number[]; // Valid national significant number lengths (no trunk prefix)
+  aliases: string[];    // Lowercase names, Turkish names and major cities found in addresses
+}
+
+export const COUNTRIES: CountryInfo[] = [
+  { code: 'TR', name: 'Türkiye', dialCode: '90', trunkPrefix: '0', nationalLengths: [10], aliases: ['turkey', 'turkiye', 'istanbul', 'ankara', 'izmir', 'bursa', 'konya'] },
+  { code: 'SA', name: 'Saudi Arabia', dialCode: '966', trunkPrefix: '0', nationalLengths: [8, 9], aliases: ['saudi arabia', 'saudi', 'ksa', 'suudi arabistan', 'riyadh', 'jeddah', 'dammam', 'mecca', 'medina', 'khobar'] },
+  { code: 'AE', name: 'United Arab Emirates', dialCode: '971', trunkPrefix: '0', nationalLengths: [8, 9], aliases: ['united arab emirates', 'uae', 'u.a.e', 'bae', 'birlesik arap emirlikleri', 'dubai', 'abu dhabi', 'sharjah', 'ajman'] },
+  { code: 'EG', name: 'Egypt', dialCode: '20', trunkPrefix: '0', nationalLengths: [8, 9, 10], aliases: ['egypt', 'misir', 'cairo', 'alexandria', 'giza'] },
+  { code: 'IQ', name: 'Iraq', dialCode: '964', trunkPrefix: '0', nationalLengths: [8, 9, 10], aliases: ['iraq', 'irak', 'baghdad', 'erbil', 'basra', 'sulaymaniyah'] },
+  { code: 'JO', name: 'Jordan', dialCode: '962', trunkPrefix: '0', nationalLengths: [8, 9], aliases: ['jordan', 'urdun', 'amman'] },
+  { code: 'KW', name: 'Kuwait', dialCode: '965', trunkPrefix: '', nationalLengths: [8], aliases: ['kuwait', 'kuveyt'] },
+  { code: 'QA', name: 'Qatar', dialCode: '974', trunkPrefix: '', nationalLengths: [8], aliases: ['qatar', 'katar', 'doha'] },
+  { code: 'BH', name: 'Bahrain', dialCode: '973', trunkPrefix: '', nationalLengths: [8], aliases: ['bahrain', 'bahreyn', 'manama'] },
+  { code: 'OM', name: 'Oman', dialCode: '968', trunkPrefix: '', nationalLengths: [8], aliases: ['oman', 'umman', 'muscat'] },
+  { code: 'LB', name: 'Lebanon', dialCode: '961', trunkPrefix: '0', nationalLengths: [7, 8], aliases: ['lebanon', 'lubnan', 'beirut'] },
+  { code: 'SY', name: 'Syria', dialCode: '963', trunkPrefix: '0', nationalLengths: [8, 9], aliases: ['syria', 'suriye', 'damascus', 'aleppo'] },
+  { code: 'YE', name: 'Yemen', dialCode: '967', trunkPrefix: '0', nationalLengths: [7, 8, 9], aliases: ['yemen', 'sanaa', 'aden'] },
+  { code: 'LY', name: 'Libya', dialCode: '218', trunkPrefix: '0', nationalLengths: [8, 9], aliases: ['libya', 'benghazi', 'misrata'] },
+  { code: 'DZ', name: 'Algeria', dialCode: '213', trunkPrefix: '0', nationalLengths: [8, 9], aliases: ['algeria', 'algerie', 'cezayir', 'algiers', 'oran'] },
+  { code: 'MA', name: 'Morocco', dialCode: '212', trunkPrefix: '0', nationalLengths: [9], aliases: ['morocco', 'maroc', 'fas', 'casablanca', 'rabat', 'tangier'] },
+  { code: 'TN', name: 'Tunisia', dialCode: '216', trunkPrefix: '', nationalLengths: [8], aliases: ['tunisia', 'tunisie', 'tunus', 'tunis', 'sfax'] },
+  { code: 'SD', name: 'Sudan', dialCode: '249', trunkPrefix: '0', nationalLengths: [9], aliases: ['sudan', 'khartoum'] },
+  { code: 'IR', name: 'Iran', dialCode: '98', trunkPrefix: '0', nationalLengths: [10], aliases: ['iran', 'tehran'] },
+  { code: 'AF', name: 'Afghanistan', dialCode: '93', trunkPrefix: '0', nationalLengths: [9], aliases: ['afghanistan', 'afganistan', 'kabul'] },
+  { code: 'RU', name: 'Russia', dialCode: '7', trunkPrefix: '8', nationalLengths: [10], aliases: ['russia', 'russian federation', 'rusya', 'moscow', 'saint petersburg', 'st. petersburg'] },
+  { code: 'KZ', name: 'Kazakhstan', dialCode: '7', trunkPrefix: '8', nationalLengths: [10], aliases: ['kazakhstan', 'kazakistan', 'almaty', 'astana'] },
+  { code: 'UA', name: 'Ukraine', dialCode: '380', trunkPrefix: '0', nationalLengths: [9], aliases: ['ukraine', 'ukrayna', 'kyiv', 'kiev', 'odesa'] },
+  { code: 'AZ', name: 'Azerbaijan', dialCode: '994', trunkPrefix: '0', nationalLengths: [9], aliases: ['azerbaijan', 'azerbaycan', 'baku'] },
+  { code: 'GE', name: 'Georgia', dialCode: '995', trunkPrefix: '0', nationalLengths: [9], aliases: ['georgia', 'gurcistan', 'tbilisi'] },
+  { code: 'CN', name: 'China', dialCode: '86', trunkPrefix: '0', nationalLengths: [10, 11], aliases: ['china', 'cin', 'prc', 'guangzhou', 'shanghai', 'beijing', 'shenzhen', 'foshan', 'yiwu'] },
+  { code: 'IN', name: 'India', dialCode: '91', trunkPrefix: '0', nationalLengths: [10], aliases: ['india', 'hindistan', 'mumbai', 'delhi', 'new delhi', 'bangalore', 'chennai'] },
+  { code: 'PK', name: 'Pakistan', dialCode: '92', trunkPrefix: '0', nationalLengths: [9, 10], aliases: ['pakistan', 'karachi', 'lahore', 'islamabad'] },
+  { code: 'BD', name: 'Bangladesh', dialCode: '880', trunkPrefix: '0', nationalLengths: [10], aliases: ['bangladesh', 'banglades', 'dhaka'] },
+  { code: 'US', name: 'United States', dialCode: '1', trunkPrefix: '', nationalLengths: [10], aliases: ['united states', 'usa', 'u.s.a', 'abd', 'amerika'] },
+  { code: 'GB', name: 'United Kingdom', dialCode: '44', trunkPrefix: '0', nationalLengths: [9, 10], aliases: ['united kingdom', 'uk', 'england', 'ingiltere', 'london', 'manchester'] },
+  { code: 'DE', name: 'Germany', dialCode: '49', trunkPrefix: '0', nationalLengths: [7, 8, 9, 10, 11], aliases: ['germany', 'deutschland', 'almanya', 'berlin', 'hamburg', 'munich'] },
+  { code: 'FR', name: 'France', dialCode: '33', trunkPrefix: '0', nationalLengths: [9], aliases: ['france', 'fransa', 'paris', 'lyon', 'marseille'] },
+  { code: 'BE', name: 'Belgium', dialCode: '32', trunkPrefix: '0', nationalLengths: [8, 9], aliases: ['belgium', 'belgique', 'belcika', 'brussels', 'antwerp'] },
+  { code: 'CH', name: 'Switzerland', dialCode: '41', trunkPrefix: '0', nationalLengths: [9], aliases: ['switzerland', 'suisse', 'isvicre', 'zurich', 'geneva'] },
+  { code: 'NL', name: 'Netherlands', dialCode: '31', trunkPrefix: '0', nationalLengths: [9], aliases: ['netherlands', 'holland', 'hollanda', 'amsterdam', 'rotterdam'] },
+  { code: 'ES', name: 'Spain', dialCode: '34', trunkPrefix: '', nationalLengths: [9], aliases: ['spain', 'espana', 'ispanya', 'madrid', 'barcelona'] },
+  { code: 'PT', name: 'Portugal', dialCode: '351', trunkPrefix: '', nationalLengths: [9], aliases: ['portugal', 'portekiz', 'lisbon', 'lisboa', 'porto'] },
+  // Italian numbers keep their leading 0 internationally, so there is no trunk prefix to strip
+  { code: 'IT', name: 'Italy', dialCode: '39', trunkPrefix: '', nationalLengths: [6, 7, 8, 9, 10, 11], aliases: ['italy', 'italia', 'italya', 'rome', 'milan'] },
+  { code: 'GR', name: 'Greece', dialCode: '30', trunkPrefix: '', nationalLengths: [10], aliases: ['greece', 'yunanistan', 'athens'] },
+  { code: 'PL', name: 'Poland', dialCode: '48', trunkPrefix: '', nationalLengths: [9], aliases: ['poland', 'polonya', 'warsaw'] },
+  { code: 'BR', name: 'Brazil', dialCode: '55', trunkPrefix: '0', nationalLengths: [10, 11], aliases: ['brazil', 'brasil', 'brezilya', 'sao paulo', 'rio de janeiro'] },
+  { code: 'MX', name: 'Mexico', dialCode: '52', trunkPrefix: '', nationalLengths: [10], aliases: ['mexico', 'meksika', 'guadalajara', 'monterrey'] },
+  { code: 'AR', name: 'Argentina', dialCode: '54', trunkPrefix: '0', nationalLengths: [10, 11], aliases: ['argentina', 'arjantin', 'buenos aires'] },
+  { code: 'CL', name: 'Chile', dialCode: '56', trunkPrefix: '', nationalLengths: [9], aliases: ['chile', 'sili', 'santiago'] },
+  { code: 'CO', name: 'Colombia', dialCode: '57', trunkPrefix: '', nationalLengths: [10], aliases: ['colombia', 'kolombiya', 'bogota', 'medellin'] },
+  { code: 'PE', name: 'Peru', dialCode: '51', trunkPrefix: '0', nationalLengths: [8, 9], aliases: ['peru', 'lima'] },
+  { code: 'NG', name: 'Nigeria', dialCode: '234', trunkPrefix: '0', nationalLengths: [8, 10], aliases: ['nigeria', 'nijerya', 'lagos', 'abuja', 'kano'] },
+  { code: 'KE', name: 'Kenya', dialCode: '254', trunkPrefix: '0', nationalLengths: [9], aliases: ['kenya', 'nairobi', 'mombasa'] },
+  { code: 'ZA', name: 'South Africa', dialCode: '27', trunkPrefix: '0', nationalLengths: [9], aliases: ['south africa', 'guney afrika', 'johannesburg', 'cape town', 'durban'] },
+  { code: 'GH', name: 'Ghana', dialCode: '233', trunkPrefix: '0', nationalLengths: [9], aliases: ['ghana', 'gana', 'accra', 'kumasi'] },
+  { code: 'ET', name: 'Ethiopia', dialCode: '251', trunkPrefix: '0', nationalLengths: [9], aliases: ['ethiopia', 'etiyopya', 'addis ababa'] },
+  { code: 'TZ', name: 'Tanzania', dialCode: '255', trunkPrefix: '0', nationalLengths: [9], aliases: ['tanzania', 'tanzanya', 'dar es salaam'] },
+  { code: 'SN', name: 'Senegal', dialCode: '221', trunkPrefix: '', nationalLengths: [9], aliases: ['senegal', 'dakar'] },
+  { code: 'CI', name: "Côte d'Ivoire", dialCode: '225', trunkPrefix: '', nationalLengths: [10], aliases: ["cote d'ivoire", 'cote divoire', 'ivory coast', 'fildisi sahili', 'abidjan'] },
+  { code: 'CM', name: 'Cameroon', dialCode: '237', trunkPrefix: '', nationalLengths: [9], aliases: ['cameroon', 'cameroun', 'kamerun', 'douala', 'yaounde'] },
+  { code: 'CD', name: 'DR Congo', dialCode: '243', trunkPrefix: '0', nationalLengths: [9], aliases: ['dr congo', 'democratic republic of the congo', 'rdc', 'kinshasa'] },
+];
+
+// Lowercase, strip accents and punctuation so "Türkiye", "TURKIYE" and "türkiye." compare equal
+export const normalizePlaceText = (text: string): string => {
+  return text
+    .replace(/İ/g, 'i')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ı/g, 'i')
+    .replace(/[^a-z0-9'.]+/g, ' ')
+    .trim();
+};
+
+// Finds the country named in a free-text address. When several match, the one mentioned last wins,
+// since addresses usually end with the country ("Dubai Investment Park, Jebel Ali, UAE").
+export const detectCountry = (text: string): CountryInfo | null => {
+  if (!text) return null;
+  const haystack = ` ${normalizePlaceText(text).replace(/\./g, ' ')} `;
+
+  let best: CountryInfo | null = null;
+  let bestPosition = -1;
+  for (const country of COUNTRIES) {
+    for (const alias of country.aliases) {
+      const needle = ` ${normalizePlaceText(alias).replace(/\./g, ' ')} `;
+      const position = haystack.lastIndexOf(needle);
+      if (position > bestPosition) {
+        best = country;
+        bestPosition = position;
+      }
+    }
+  }
+
+  return best;
+};
+
+export const findCountryByCode = (code: string): CountryInfo | undefined => {
+  return COUNTRIES.find(c => c.code === code);
+};
+
+// Longest dial code that prefixes the digits (dial codes are 1-3 digits and prefix-free)
+export const findCountryByDialPrefix = (digits: string): CountryInfo | undefined => {
+  for (const length of [3, 2, 1]) {
+    const prefix = digits.slice(0, length);
+    const match = COUNTRIES.find(c => c.dialCode === prefix);
+    if (match) return match;
+  }
+  return undefined;
+};
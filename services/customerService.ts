@@ -0,0 +1,58 @@
+import { Customer, CustomerField, SourceRef } from "../types";
+
+export const CUSTOMER_FIELDS: { key: CustomerField; label: string }[] = [
+  { key: 'company', label: 'Company' },
+  { key: 'representative', label: 'Representative' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'email', label: 'Email' },
+  { key: 'country', label: 'Country' },
+  { key: 'website', label: 'Website' },
+  { key: 'notes', label: 'Notes' },
+];
+
+// Extracted values scored below this are highlighted until the user edits or confirms them
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export const isLowConfidence = (customer: Customer, field: CustomerField): boolean => {
+  const score = customer.confidence?.[field];
+  return score !== undefined && score < LOW_CONFIDENCE_THRESHOLD;
+};
+
+export const lowConfidenceFields = (customer: Customer): CustomerField[] => {
+  return CUSTOMER_FIELDS.map(f => f.key).filter(field => isLowConfidence(customer, field));
+};
+
+// Applies manual changes, recording each changed field in the edit history.
+// Edited fields count as verified, so their confidence becomes 1.
+export const applyCustomerEdits = (customer: Customer, patch: Partial<Record<CustomerField, string>>): Customer => {
+  const editedAt = Date.now();
+  const changed = (Object.keys(patch) as CustomerField[]).filter(field => patch[field] !== customer[field]);
+  if (changed.length === 0) return customer;
+
+  const updated: Customer = { ...customer, ...patch };
+  updated.edits = [
+    ...(customer.edits || []),
+    ...changed.map(field => ({ field, from: customer[field], to: patch[field] as string, editedAt })),
+  ];
+  if (customer.confidence) {
+    updated.confidence = { ...customer.confidence };
+    changed.forEach(field => { updated.confidence![field] = 1; });
+  }
+  return updated;
+};
+
+// Marks a doubtful value as checked against the source without changing it
+export const confirmCustomerField = (customer: Customer, field: CustomerField): Customer => ({
+  ...customer,
+  confidence: { ...customer.confidence, [field]: 1 },
+});
+
+// Value the field had before its first manual edit, or undefined if never edited
+export const originalFieldValue = (customer: Customer, field: CustomerField): string | undefined => {
+  return customer.edits?.find(e => e.field === field)?.from;
+};
+
+// "list.pdf, page 3" for PDF pages, just the file name for photos
+export const sourceLabel = (source: SourceRef): string => {
+  return /\.pdf$/i.test(source.fileName) ? `${source.fileName}, page ${source.page}` : source.fileName;
+};
@@ -0,0 +1,67 @@
+import { DraftLanguage, DraftRevision, GeneratedMessage } from "../types";
+
+export type DraftText = Pick<GeneratedMessage, 'subject' | 'body' | 'whatsappBody'>;
+
+const createRevision = (text: DraftText, source: DraftRevision['source'], language?: DraftLanguage): DraftRevision => ({
+  id: `rev-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  subject: text.subject,
+  body: text.body,
+  whatsappBody: text.whatsappBody,
+  source,
+  language,
+  createdAt: Date.now(),
+});
+
+// Drafts saved before revisions existed count as a single generated revision
+export const revisionsOf = (message: GeneratedMessage): DraftRevision[] => {
+  if (message.revisions && message.revisions.length > 0) return message.revisions;
+  return [{ ...createRevision(message, message.edited ? 'edited' : 'generated', message.language), id: 'rev-initial', createdAt: 0 }];
+};
+
+// Makes a freshly generated draft current while keeping every earlier version
+export const addGeneratedRevision = (
+  previous: GeneratedMessage | undefined,
+  generated: GeneratedMessage,
+  language: DraftLanguage
+): GeneratedMessage => {
+  const revision = createRevision(generated, 'generated', language);
+  return {
+    ...generated,
+    language,
+    edited: false,
+    revisions: [...(previous ? revisionsOf(previous) : []), revision],
+    revisionId: revision.id,
+  };
+};
+
+const sameText = (a: DraftText, b: DraftText) =>
+  a.subject === b.subject && a.body === b.body && (a.whatsappBody || '') === (b.whatsappBody || '');
+
+// Saves a hand edit as a new revision; unchanged text leaves the message as it was
+export const applyDraftEdit = (message: GeneratedMessage, text: DraftText): GeneratedMessage => {
+  if (sameText(message, text)) return message;
+  const revision = createRevision(text, 'edited', message.language);
+  return {
+    ...message,
+    ...text,
+    edited: true,
+    revisions: [...revisionsOf(message), revision],
+    revisionId: revision.id,
+  };
+};
+
+export const restoreRevision = (message: GeneratedMessage, revision: DraftRevision): GeneratedMessage => ({
+  ...message,
+  subject: revision.subject,
+  body: revision.body,
+  whatsappBody: revision.whatsappBody,
+  language: revision.language ?? message.language,
+  edited: revision.source === 'edited',
+  revisions: revisionsOf(message),
+  revisionId: revision.id,
+});
+
+export const currentRevisionId = (message: GeneratedMessage): string => {
+  const revisions = revisionsOf(message);
+  return message.revisionId || revisions[revisions.length - 1].id;
+};
@@ -0,0 +1,155 @@
+import { Customer, SavedItem } from "../types";
+import { splitPhoneNumbers } from "./phoneService";
+
+export type DuplicateReason = 'email' | 'phone' | 'company';
+
+// Where the matching record lives: the active list, the archive, or earlier in the same import
+export type DuplicateSource = 'active' | 'archived' | 'import';
+
+export interface DuplicateMatch {
+  incoming: Customer;
+  existing: Customer;
+  source: DuplicateSource;
+  reasons: DuplicateReason[];
+}
+
+// Company names at least this similar (Dice coefficient on character bigrams) count as the same company
+const COMPANY_SIMILARITY_THRESHOLD = 0.85;
+
+// Numbers are compared on their trailing digits so "+90 532..." and "0532..." match
+const PHONE_COMPARE_DIGITS = 9;
+const MIN_PHONE_DIGITS = 7;
+
+const LEGAL_SUFFIXES = [
+  'ltd', 'limited', 'llc', 'inc', 'co', 'corp', 'company', 'gmbh', 'sa', 'srl', 'spa', 'bv', 'plc',
+  'as', 'sti', 'san', 'tic', 'trading', 'group', 'fze', 'fzco', 'est', 'establishment',
+];
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export const phoneKeys = (phone: string): string[] => {
+  return splitPhoneNumbers(phone)
+    .map(p => p.replace(/\D/g, ''))
+    .filter(d => d.length >= MIN_PHONE_DIGITS)
+    .map(d => d.slice(-PHONE_COMPARE_DIGITS));
+};
+
+export const normalizeCompany = (company: string): string => {
+  const words = company
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/ı/g, 'i')
+    .replace(/[^a-z0-9\u0600-\u06FF\u0400-\u04FF\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  return words.filter(w => !LEGAL_SUFFIXES.includes(w)).join(' ');
+};
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/\s+/g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+};
+
+export const companySimilarity = (a: string, b: string): number => {
+  const left = normalizeCompany(a);
+  const right = normalizeCompany(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0;
+
+  const remaining = [...rightBigrams];
+  let overlap = 0;
+  leftBigrams.forEach(bigram => {
+    const index = remaining.indexOf(bigram);
+    if (index !== -1) {
+      overlap++;
+      remaining.splice(index, 1);
+    }
+  });
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+};
+
+export const matchReasons = (a: Customer, b: Customer): DuplicateReason[] => {
+  const reasons: DuplicateReason[] = [];
+
+  if (a.email && b.email && normalizeEmail(a.email) === normalizeEmail(b.email)) {
+    reasons.push('email');
+  }
+
+  const bPhones = phoneKeys(b.phone);
+  if (phoneKeys(a.phone).some(key => bPhones.includes(key))) {
+    reasons.push('phone');
+  }
+
+  if (a.company && b.company && companySimilarity(a.company, b.company) >= COMPANY_SIMILARITY_THRESHOLD) {
+    reasons.push('company');
+  }
+
+  return reasons;
+};
+
+// Splits an import into new customers and likely duplicates of active, archived or earlier imported rows
+export const findDuplicates = (
+  incoming: Customer[],
+  active: Customer[],
+  archived: SavedItem[]
+): { unique: Customer[]; duplicates: DuplicateMatch[] } => {
+  const unique: Customer[] = [];
+  const duplicates: DuplicateMatch[] = [];
+
+  const candidates: { customer: Customer; source: DuplicateSource }[] = [
+    ...active.map(customer => ({ customer, source: 'active' as const })),
+    ...archived.map(item => ({ customer: item.customer, source: 'archived' as const })),
+  ];
+
+  incoming.forEach(customer => {
+    const match = candidates
+      .map(candidate => ({ ...candidate, reasons: matchReasons(customer, candidate.customer) }))
+      .find(candidate => candidate.reasons.length > 0);
+
+    if (match) {
+      duplicates.push({ incoming: customer, existing: match.customer, source: match.source, reasons: match.reasons });
+    } else {
+      unique.push(customer);
+      candidates.push({ customer, source: 'import' });
+    }
+  });
+
+  return { unique, duplicates };
+};
+
+const mergeNotes = (a: string, b: string): string => {
+  const left = a.trim();
+  const right = b.trim();
+  if (!left) return right;
+  if (!right || left.toLowerCase().includes(right.toLowerCase())) return left;
+  return `${left}\n${right}`;
+};
+
+const mergePhones = (a: string, b: string): string => {
+  const known = phoneKeys(a);
+  const extra = splitPhoneNumbers(b)
+    .filter(p => !phoneKeys(p).some(key => known.includes(key)));
+  return [a.trim(), ...extra].filter(Boolean).join(', ');
+};
+
+// Keeps the existing record's id and values, fills its empty fields from the other record,
+// combines notes and adds any phone numbers it did not have yet
+export const mergeCustomers = (existing: Customer, other: Customer): Customer => ({
+  ...existing,
+  company: existing.company || other.company,
+  representative: existing.representative || other.representative,
+  phone: mergePhones(existing.phone, other.phone),
+  country: existing.country || other.country,
+  email: existing.email || other.email,
+  website: existing.website || other.website,
+  notes: mergeNotes(existing.notes, other.notes),
+});
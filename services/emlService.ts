@@ -0,0 +1,145 @@
+import { Customer, GeneratedMessage, SenderProfile } from "../types";
+import { textDirection } from "./languageService";
+import { createZip } from "./zipService";
+import { downloadBlob, fileSafe } from "./exportService";
+
+export interface EmailDraft {
+  customer: Customer;
+  message: GeneratedMessage;
+}
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const base64Utf8 = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+// Body parts are base64 so Arabic and Turkish text survives any mail relay; lines stay within 76 characters
+const base64Body = (text: string): string => base64Utf8(text).replace(/.{76}/g, '$&\r\n');
+
+// RFC 2047 encoded words for non-ASCII header text, each kept under the 75-character limit
+export const encodeHeader = (text: string): string => {
+  if (/^[\x20-\x7E]*$/.test(text)) return text;
+  const encoder = new TextEncoder();
+  const words: string[] = [];
+  let chunk = '';
+  Array.from(text).forEach(char => {
+    if (encoder.encode(chunk + char).length > 45) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  });
+  if (chunk) words.push(chunk);
+  return words.map(word => `=?UTF-8?B?${base64Utf8(word)}?=`).join('\r\n ');
+};
+
+// The address as it may appear in a header, or '' if it can't: a CR/LF from an OCR'd or pasted contact
+// would otherwise start a header of its own (e.g. "Bcc:")
+export const headerAddress = (email: string): string => {
+  const trimmed = email.trim();
+  return /^[^\s<>@",;\x00-\x1f\x7f]+@[^\s<>@",;\x00-\x1f\x7f]+$/.test(trimmed) ? trimmed : '';
+};
+
+const formatAddress = (name: string, email: string): string => {
+  if (!name) return `<${email}>`;
+  const display = /^[\x20-\x7E]*$/.test(name) ? `"${name.replace(/(["\\])/g, '\\$1')}"` : encodeHeader(name);
+  return `${display} <${email}>`;
+};
+
+// RFC 5322 date with the local UTC offset, e.g. "Tue, 20 Oct 2026 10:00:00 +0300"
+const formatMailDate = (date: Date): string => {
+  const offset = -date.getTimezoneOffset();
+  const zone = `${offset >= 0 ? '+' : '-'}${pad(Math.floor(Math.abs(offset) / 60))}${pad(Math.abs(offset) % 60)}`;
+  return `${DAYS[date.getDay()]}, ${pad(date.getDate())} ${MONTHS[date.getMonth()]} ${date.getFullYear()} `
+    + `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())} ${zone}`;
+};
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+const toHtml = (body: string, dir: 'ltr' | 'rtl'): string => {
+  const paragraphs = body.split(/\n{2,}/).map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`).join('\n');
+  return `<!DOCTYPE html>\n<html><head><meta charset="UTF-8"></head>\n<body dir="${dir}" style="font-family: Arial, sans-serif; font-size: 14px;">\n${paragraphs}\n</body></html>`;
+};
+
+const randomId = () => `${Date.now().toString(36)}.${Math.random().toString(36).slice(2, 10)}`;
+
+// A complete MIME message with plain-text and HTML parts. X-Unsent makes Outlook open it as an editable draft;
+// messages handed to an SMTP server go out without it.
+export const toEml = ({ customer, message }: EmailDraft, sender: SenderProfile, date: Date = new Date(), asDraft: boolean = true): string => {
+  const boundary = `----=_Part_${randomId()}`;
+  const from = headerAddress(sender.email);
+  const to = headerAddress(customer.email);
+  const domain = from.split('@')[1] || 'akfix-outreach.local';
+  const recipient = customer.representative || customer.company;
+
+  // Invalid addresses are left out rather than written raw; the draft can still be addressed in the mail client
+  const headers = [
+    from && `From: ${formatAddress(sender.name, from)}`,
+    to && `To: ${formatAddress(recipient, to)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${formatMailDate(date)}`,
+    `Message-ID: <${randomId()}@${domain}>`,
+    message.language && `Content-Language: ${message.language}`,
+    'MIME-Version: 1.0',
+    asDraft && 'X-Unsent: 1',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ].filter(Boolean);
+
+  return [
+    ...headers,
+    '',
+    'This is a multi-part message in MIME format.',
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(message.body),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Body(toHtml(message.body, textDirection(message.language, message.body))),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+};
+
+// asctime-style date of the mbox "From " separator line, in UTC
+const formatMboxDate = (date: Date): string => {
+  return `${DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2, ' ')} `
+    + `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} ${date.getUTCFullYear()}`;
+};
+
+// mboxrd: LF line endings, and body lines starting with (quoted) "From " get one more ">"
+export const toMbox = (drafts: EmailDraft[], sender: SenderProfile, date: Date = new Date()): string => {
+  return drafts.map(draft => {
+    const eml = toEml(draft, sender, date).replace(/\r\n/g, '\n').replace(/^(>*From )/gm, '>$1');
+    return `From ${headerAddress(sender.email) || 'MAILER-DAEMON'} ${formatMboxDate(date)}\n${eml}\n`;
+  }).join('');
+};
+
+export const downloadEmlZip = (drafts: EmailDraft[], sender: SenderProfile, baseName: string) => {
+  const date = new Date();
+  const width = String(drafts.length).length;
+  const entries = drafts.map((draft, index) => ({
+    // Numbered so two contacts from the same company don't overwrite each other
+    name: `${String(index + 1).padStart(width, '0')}-${fileSafe(draft.customer.company || draft.customer.representative)}.eml`,
+    content: toEml(draft, sender, date),
+    modifiedAt: date,
+  }));
+  downloadBlob(new Blob([createZip(entries)], { type: 'application/zip' }), `${baseName}.zip`);
+};
+
+export const downloadMbox = (drafts: EmailDraft[], sender: SenderProfile, baseName: string) => {
+  downloadBlob(new Blob([toMbox(drafts, sender)], { type: 'application/mbox' }), `${baseName}.mbox`);
+};
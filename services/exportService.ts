@@ -0,0 +1,96 @@
+import * as XLSX from 'xlsx';
+import { SavedItem } from "../types";
+import { statusInfo, statusOf } from "./pipelineService";
+import { sourceLabel } from "./customerService";
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  group: 'Contact' | 'Pipeline' | 'Drafts';
+  defaultSelected: boolean;
+  value: (item: SavedItem) => string;
+}
+
+const formatTimestamp = (timestamp?: number) => timestamp ? new Date(timestamp).toLocaleString() : '';
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: 'company', label: 'Company', group: 'Contact', defaultSelected: true, value: i => i.customer.company },
+  { key: 'representative', label: 'Representative', group: 'Contact', defaultSelected: true, value: i => i.customer.representative },
+  { key: 'phone', label: 'Phone', group: 'Contact', defaultSelected: true, value: i => i.customer.phone },
+  { key: 'email', label: 'Email', group: 'Contact', defaultSelected: true, value: i => i.customer.email },
+  { key: 'country', label: 'Country', group: 'Contact', defaultSelected: true, value: i => i.customer.country },
+  { key: 'website', label: 'Website', group: 'Contact', defaultSelected: true, value: i => i.customer.website },
+  { key: 'notes', label: 'Notes', group: 'Contact', defaultSelected: true, value: i => i.customer.notes },
+  { key: 'source', label: 'Source Page', group: 'Contact', defaultSelected: false, value: i => i.customer.source ? sourceLabel(i.customer.source) : '' },
+  { key: 'status', label: 'Status', group: 'Pipeline', defaultSelected: true, value: i => statusInfo(statusOf(i)).label },
+  { key: 'statusNote', label: 'Last Outcome Note', group: 'Pipeline', defaultSelected: true, value: i => i.statusHistory?.[i.statusHistory.length - 1]?.note || '' },
+  { key: 'statusChangedAt', label: 'Status Changed', group: 'Pipeline', defaultSelected: false, value: i => formatTimestamp(i.statusHistory?.[i.statusHistory.length - 1]?.changedAt) },
+  { key: 'savedAt', label: 'Archived', group: 'Pipeline', defaultSelected: false, value: i => formatTimestamp(i.savedAt) },
+  {
+    key: 'statusHistory',
+    label: 'Status History',
+    group: 'Pipeline',
+    defaultSelected: false,
+    value: i => (i.statusHistory || [])
+      .map(change => `${formatTimestamp(change.changedAt)} ${statusInfo(change.status).label}${change.note ? `: ${change.note}` : ''}`)
+      .join('\n'),
+  },
+  { key: 'language', label: 'Draft Language', group: 'Drafts', defaultSelected: false, value: i => i.message.language || '' },
+  { key: 'emailSubject', label: 'Email Subject', group: 'Drafts', defaultSelected: false, value: i => i.message.subject },
+  { key: 'emailBody', label: 'Email Body', group: 'Drafts', defaultSelected: false, value: i => i.message.body },
+  { key: 'whatsappBody', label: 'WhatsApp Text', group: 'Drafts', defaultSelected: false, value: i => i.message.whatsappBody || '' },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = EXPORT_COLUMNS.filter(c => c.defaultSelected).map(c => c.key);
+
+// Header row followed by one row per lead, in the order of EXPORT_COLUMNS
+export const toExportRows = (items: SavedItem[], columnKeys: string[]): string[][] => {
+  const columns = EXPORT_COLUMNS.filter(c => columnKeys.includes(c.key));
+  return [columns.map(c => c.label), ...items.map(item => columns.map(c => c.value(item) ?? ''))];
+};
+
+// RFC 4180: fields with quotes, commas or line breaks are quoted, quotes are doubled, records end in CRLF
+const escapeCsvField = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCsv = (rows: string[][]): string => {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+};
+
+// Letters and digits of any script survive, everything else becomes a dash
+export const fileSafe = (text: string): string => {
+  return text.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'contact';
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const exportLeads = (items: SavedItem[], columnKeys: string[], format: ExportFormat, baseName: string) => {
+  const rows = toExportRows(items, columnKeys);
+
+  if (format === 'csv') {
+    // The BOM makes Excel read the file as UTF-8 instead of the system code page
+    downloadBlob(new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+    return;
+  }
+
+  const sheet = XLSX.utils.aoa_to_sheet(rows);
+  // Long text columns (notes, drafts) get a wider column than the short contact fields
+  const widest = (col: number) => Math.max(...rows.slice(0, 50).flatMap(row => (row[col] || '').split('\n').map(line => line.length)));
+  sheet['!cols'] = rows[0].map((_, col) => ({ wch: Math.min(60, Math.max(10, widest(col))) }));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Leads');
+  XLSX.writeFile(workbook, `${baseName}.xlsx`);
+};
@@ -0,0 +1,133 @@
+import { Customer, CustomerField, LLMSettings, ProcessingStatus, SourceRef, UploadedFile } from "../types";
+import { CUSTOMER_FIELDS } from "./customerService";
+import { extractDataFromImage, extractDataFromPdf } from "./geminiService";
+import { runJobQueue } from "./jobQueue";
+import { LLMError, toLLMError } from "./llmError";
+
+// Rows read from one page of an upload, in table order
+export interface ExtractedPage {
+  source: SourceRef;
+  rows: Customer[];
+  continuesPreviousPage: boolean; // The first row is the rest of the last row of the previous page
+}
+
+export interface ExtractionResult {
+  customers: Customer[];
+  pageCount: number;
+  failures: { file: UploadedFile; error: LLMError }[];
+}
+
+// Formats every supported provider reads natively; HEIC photos from iPhones have to be converted first
+export const SUPPORTED_UPLOAD_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'application/pdf'];
+
+export const isPdf = (file: UploadedFile) => file.mimeType === 'application/pdf';
+
+export const toDataUrl = (file: UploadedFile) => `data:${file.mimeType};base64,${file.data}`;
+
+// The MIME type comes from the data URL the browser built, falling back to the file extension
+export const readUploadedFile = (file: File): Promise<UploadedFile> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => {
+    const dataUrl = reader.result as string;
+    const comma = dataUrl.indexOf(',');
+    const extension = file.name.split('.').pop()?.toLowerCase();
+    const byExtension = extension === 'pdf' ? 'application/pdf' : extension === 'jpg' ? 'image/jpeg' : extension ? `image/${extension}` : '';
+    resolve({
+      id: `upload-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: file.name,
+      mimeType: /^data:([^;,]+)/.exec(dataUrl)?.[1] || file.type || byExtension,
+      data: dataUrl.slice(comma + 1),
+    });
+  };
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// Cell text of a row split by a page break: words get a space between them, addresses are glued back together
+const joinCell = (field: CustomerField, head: string, tail: string): string => {
+  if (!head || !tail) return head || tail;
+  return field === 'email' || field === 'website' ? `${head}${tail}` : `${head} ${tail}`;
+};
+
+const joinSplitRow = (head: Customer, tail: Customer): Customer => {
+  const joined: Customer = { ...head };
+  const confidence: Customer['confidence'] = { ...head.confidence };
+  CUSTOMER_FIELDS.forEach(({ key }) => {
+    joined[key] = joinCell(key, head[key], tail[key]);
+    // A joined value is only as certain as its least certain part
+    const scores = [head.confidence?.[key], tail.confidence?.[key]].filter((v): v is number => v !== undefined);
+    if (scores.length > 0) confidence[key] = Math.min(...scores);
+  });
+  return { ...joined, confidence: Object.keys(confidence).length > 0 ? confidence : undefined };
+};
+
+// A page-opening row with neither company nor contact may be the tail of a split row the model
+// did not report, so it is kept on its own but flagged for the user to check
+const flagHeadless = (row: Customer): Customer => ({
+  ...row,
+  confidence: { ...row.confidence, company: 0, representative: 0 },
+});
+
+// Concatenates pages in order; a row the model marks as cut by a page break is joined back
+// into one contact, which keeps the page it started on
+export const mergeExtractedPages = (pages: ExtractedPage[]): Customer[] => {
+  const merged: Customer[] = [];
+  pages.forEach((page, pageIndex) => {
+    page.rows.forEach((row, rowIndex) => {
+      const opensPage = pageIndex > 0 && rowIndex === 0 && merged.length > 0;
+      if (opensPage && page.continuesPreviousPage) {
+        merged[merged.length - 1] = joinSplitRow(merged[merged.length - 1], row);
+      } else if (opensPage && !row.company.trim() && !row.representative.trim()) {
+        merged.push(flagHeadless(row));
+      } else {
+        merged.push(row);
+      }
+    });
+  });
+  return merged;
+};
+
+// Extracts every upload (one request per image, one per PDF) and merges the pages in upload order
+export const extractUploads = async (
+  files: UploadedFile[],
+  llm: Pick<LLMSettings, 'concurrency' | 'maxRetries'>,
+  onProgress: (status: ProcessingStatus) => void
+): Promise<ExtractionResult> => {
+  const pagesByFile: ExtractedPage[][] = files.map(() => []);
+  const errors: (LLMError | undefined)[] = files.map(() => undefined);
+
+  const queue = runJobQueue(
+    files.map((file, index) => ({ file, index })),
+    async ({ file, index }: { file: UploadedFile; index: number }) => {
+      try {
+        pagesByFile[index] = isPdf(file) ? await extractDataFromPdf(file) : [await extractDataFromImage(file)];
+        errors[index] = undefined;
+      } catch (error) {
+        errors[index] = toLLMError(error);
+        throw error;
+      }
+    },
+    { concurrency: llm.concurrency, maxRetries: llm.maxRetries },
+    onProgress
+  );
+  await queue.finished;
+
+  // Rows are never joined across a file that failed, since the page in between is missing
+  const customers: Customer[] = [];
+  let run: ExtractedPage[] = [];
+  files.forEach((_, index) => {
+    if (errors[index]) {
+      customers.push(...mergeExtractedPages(run));
+      run = [];
+    } else {
+      run.push(...pagesByFile[index]);
+    }
+  });
+  customers.push(...mergeExtractedPages(run));
+
+  return {
+    customers,
+    pageCount: pagesByFile.flat().length,
+    failures: files.flatMap((file, index) => errors[index] ? [{ file, error: errors[index]! }] : []),
+  };
+};
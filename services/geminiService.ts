@@ -1,181 +1,243 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Customer, GeneratedMessage, GenerationContext } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-const MODEL_NAME = 'gemini-2.5-flash';
+import { Customer, CustomerField, DraftLanguage, GeneratedMessage, GenerationContext, SenderProfile, SequenceStep, SourceBox, SourceRef, TemplateChannel, UploadedFile } from "../types";
+import { getProvider, JsonSchema } from "./llmProvider";
+import { LLMError, parseLLMJson, toLLMError } from "./llmError";
+import { CUSTOMER_FIELDS } from "./customerService";
+import { detectCountry } from "./countryService";
+import { getLanguage } from "./languageService";
+import { FollowUpHistoryEntry } from "./sequenceService";
+import { ConversationEntry } from "./threadService";
+import { ExtractedPage } from "./extractionService";
+import { canFillLocally, fillTemplate, placeholderValues, renderTemplates, TemplatePlan } from "./templateService";
+import { arabicSenderName, buildSignature, DEFAULT_SENDER_PROFILE } from "./senderProfileService";
 
 // Schema for extracting customer data from the image
-const customerListSchema: Schema = {
-  type: Type.ARRAY,
+const customerListSchema: JsonSchema = {
+  type: 'array',
   items: {
-    type: Type.OBJECT,
+    type: 'object',
     properties: {
-      company: { type: Type.STRING, description: "Company name (Firma)" },
-      representative: { type: Type.STRING, description: "Representative name (Temsilci)" },
-      phone: { type: Type.STRING, description: "Phone number (Tel)" },
-      country: { type: Type.STRING, description: "Address/Country (Adres)" },
-      email: { type: Type.STRING, description: "Email address (Mail)" },
-      website: { type: Type.STRING, description: "Website URL" },
-      notes: { type: Type.STRING, description: "Description/Comments (Açıklama). Translate to English if in Turkish." },
+      company: { type: 'string', description: "Company name (Firma)" },
+      representative: { type: 'string', description: "Representative name (Temsilci)" },
+      phone: { type: 'string', description: "Phone number (Tel)" },
+      country: { type: 'string', description: "Address/Country (Adres)" },
+      email: { type: 'string', description: "Email address (Mail)" },
+      website: { type: 'string', description: "Website URL" },
+      notes: { type: 'string', description: "Description/Comments (Açıklama). Translate to English if in Turkish." },
+      confidence: {
+        type: 'object',
+        description: "How sure you are of each value, from 0 (guess) to 1 (clearly legible)",
+        properties: Object.fromEntries(CUSTOMER_FIELDS.map(f => [f.key, { type: 'number' } as JsonSchema])),
+      },
     },
     required: ["company", "notes"], // Minimal requirement
   },
 };
 
-export const extractDataFromImage = async (base64Image: string): Promise<Customer[]> => {
+// Page-aware variants for photos and scans, where a table row can be cut at the page edge
+const withItemProperties = (schema: JsonSchema, properties: Record<string, JsonSchema>): JsonSchema => ({
+  ...schema,
+  items: { ...schema.items!, properties: { ...schema.items!.properties, ...properties } },
+});
+
+const CONTINUATION_PROPERTY: JsonSchema = {
+  type: 'boolean',
+  description: "True only for the first row of a page when it is the rest of a row cut off at the end of the previous page",
+};
+
+const pageRowSchema = withItemProperties(customerListSchema, {
+  continuesPreviousPage: CONTINUATION_PROPERTY,
+  box: { type: 'array', items: { type: 'number' }, description: "Bounding box of the whole table row as [ymin, xmin, ymax, xmax], scaled 0-1000" },
+});
+
+const documentRowSchema = withItemProperties(customerListSchema, {
+  page: { type: 'number', description: "1-based number of the PDF page the row is on" },
+  continuesPreviousPage: CONTINUATION_PROPERTY,
+});
+
+const TABLE_INSTRUCTION = "The columns map as follows: Firma->company, Temsilci->representative, Tel->phone, Adres->country, Mail->email, Web site->website, Açıklama->notes. Treat 'Açıklama' as highly important context. If a field is empty, use an empty string.";
+
+const CONTINUATION_INSTRUCTION = "If the first row of a page has no company or representative because it continues a row from the previous page, return only the continued cell text for it and set 'continuesPreviousPage' to true.";
+
+const BOX_INSTRUCTION = "For every row also fill 'box' with the bounding box of the row on the image as [ymin, xmin, ymax, xmax], each scaled from 0 to 1000.";
+
+const CONFIDENCE_INSTRUCTION = "For every row also fill 'confidence' with a score between 0 and 1 per field: lower it for blurry, handwritten, cut-off or guessed values, and use 1 for empty fields.";
+
+// One table row as the model returns it; every value is checked before it is used
+type RawRow = Partial<Record<CustomerField | 'confidence' | 'box' | 'page' | 'continuesPreviousPage', unknown>>;
+
+// The text fields of a draft, follow-up or reply response
+interface RawMessage {
+  emailSubject: string;
+  emailBody: string;
+  whatsappBody: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asText = (value: unknown): string => typeof value === 'string' ? value : typeof value === 'number' ? String(value) : '';
+
+const parseRows = (parsed: unknown): RawRow[] => {
+  if (!Array.isArray(parsed)) throw new LLMError('invalidJson', 'Expected a list of contacts');
+  return parsed.filter(isRecord);
+};
+
+const parseMessage = (parsed: unknown): RawMessage => {
+  const data = isRecord(parsed) ? parsed : {};
+  return { emailSubject: asText(data.emailSubject), emailBody: asText(data.emailBody), whatsappBody: asText(data.whatsappBody) };
+};
+
+// Only keeps scores that are real numbers, clamped to 0..1
+const parseConfidence = (raw: unknown): Customer['confidence'] => {
+  if (!isRecord(raw)) return undefined;
+  const scores: Customer['confidence'] = {};
+  CUSTOMER_FIELDS.forEach(({ key }) => {
+    const value = Number(raw[key]);
+    if (raw[key] !== undefined && !Number.isNaN(value)) scores[key] = Math.min(1, Math.max(0, value));
+  });
+  return Object.keys(scores).length > 0 ? scores : undefined;
+};
+
+// Boxes come as [ymin, xmin, ymax, xmax] on a 0-1000 grid; anything else is dropped
+const parseBox = (raw: unknown): SourceBox | undefined => {
+  if (!Array.isArray(raw) || raw.length !== 4) return undefined;
+  const [ymin, xmin, ymax, xmax] = raw.map(v => Math.min(1000, Math.max(0, Number(v))) / 1000);
+  if ([ymin, xmin, ymax, xmax].some(Number.isNaN) || ymax <= ymin || xmax <= xmin) return undefined;
+  return { top: ymin, left: xmin, width: xmax - xmin, height: ymax - ymin };
+};
+
+// Map and ensure defaults to prevent undefined errors
+const toCustomers = (rows: RawRow[], idPrefix: string, source?: SourceRef): Customer[] => {
+  return rows.map((c, index) => ({
+    company: asText(c.company),
+    representative: asText(c.representative),
+    phone: asText(c.phone),
+    country: asText(c.country),
+    email: asText(c.email),
+    website: asText(c.website),
+    notes: asText(c.notes),
+    confidence: parseConfidence(c.confidence),
+    source: source && { ...source, box: parseBox(c.box) },
+    id: `${idPrefix}-${Date.now()}-${index}`,
+  }));
+};
+
+export const extractDataFromImage = async (image: UploadedFile): Promise<ExtractedPage> => {
   try {
-    // Remove header if present (e.g., "data:image/png;base64,")
-    const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, "");
-
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: "image/png", // Assuming PNG/JPEG, API handles standard types
-              data: cleanBase64,
-            },
-          },
-          {
-            text: "Extract the customer data from this table image into a JSON structure. The columns map as follows: Firma->company, Temsilci->representative, Tel->phone, Adres->country, Mail->email, Web site->website, Açıklama->notes. Treat 'Açıklama' as highly important context. If a field is empty, use an empty string.",
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: customerListSchema,
-        systemInstruction: "You are a precise data extraction assistant. You extract tabular data from images perfectly.",
-      },
+    const responseText = await getProvider().generateJSON({
+      task: 'extractImage',
+      attachment: { mimeType: image.mimeType, data: image.data },
+      prompt: `Extract the customer data from this table image into a JSON structure. ${TABLE_INSTRUCTION} The image may be one of several photos of the same list. ${CONTINUATION_INSTRUCTION} ${BOX_INSTRUCTION} ${CONFIDENCE_INSTRUCTION}`,
+      schema: pageRowSchema,
+      systemInstruction: "You are a precise data extraction assistant. You extract tabular data from images perfectly.",
     });
 
-    if (response.text) {
-      const parsedData = JSON.parse(response.text);
-      // Map and ensure defaults to prevent undefined errors
-      return parsedData.map((c: any, index: number) => ({
-        company: c.company || "",
-        representative: c.representative || "",
-        phone: c.phone || "",
-        country: c.country || "",
-        email: c.email || "",
-        website: c.website || "",
-        notes: c.notes || "",
-        id: `cust-img-${Date.now()}-${index}`,
-      }));
-    }
-    return [];
+    const parsed = parseRows(parseLLMJson(responseText));
+    const source = { fileName: image.name, page: 1, uploadId: image.id };
+    return { source, rows: toCustomers(parsed, `cust-img-${image.id}`, source), continuesPreviousPage: parsed[0]?.continuesPreviousPage === true };
   } catch (error) {
     console.error("Extraction error:", error);
-    throw new Error("Failed to extract data from image.");
+    throw toLLMError(error);
+  }
+};
+
+// Reads every page of a scanned PDF in one request; rows come back tagged with their page
+export const extractDataFromPdf = async (pdf: UploadedFile): Promise<ExtractedPage[]> => {
+  try {
+    const responseText = await getProvider().generateJSON({
+      task: 'extractDocument',
+      attachment: { mimeType: pdf.mimeType, data: pdf.data },
+      prompt: `Extract the customer data from every page of this PDF, which holds one table spread over several pages, into a JSON structure. Keep the rows in page order and set 'page' on every row. ${TABLE_INSTRUCTION} ${CONTINUATION_INSTRUCTION} ${CONFIDENCE_INSTRUCTION}`,
+      schema: documentRowSchema,
+      systemInstruction: "You are a precise data extraction assistant. You extract tabular data from scanned documents perfectly.",
+    });
+
+    const parsed = parseRows(parseLLMJson(responseText));
+
+    const byPage = new Map<number, RawRow[]>();
+    parsed.forEach(row => {
+      const page = Math.max(1, Math.round(Number(row.page)) || 1);
+      byPage.set(page, [...(byPage.get(page) || []), row]);
+    });
+    return [...byPage.keys()].sort((a, b) => a - b).map(page => {
+      const rows = byPage.get(page)!;
+      const source = { fileName: pdf.name, page, uploadId: pdf.id };
+      return { source, rows: toCustomers(rows, `cust-pdf-${pdf.id}-p${page}`, source), continuesPreviousPage: rows[0]?.continuesPreviousPage === true };
+    });
+  } catch (error) {
+    console.error("PDF extraction error:", error);
+    throw toLLMError(error);
   }
 };
 
 export const extractDataFromText = async (textData: string): Promise<Customer[]> => {
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: {
-        parts: [
-          {
-            text: `Parse this raw text (likely copied from Excel) into a JSON structure. 
+    const responseText = await getProvider().generateJSON({
+      task: 'extractText',
+      prompt: `Parse this raw text (likely copied from Excel) into a JSON structure. 
             The columns typically correspond to: Company (Firma), Representative (Temsilci), Phone (Tel), Country (Adres), Email (Mail), Website, Notes (Açıklama).
             
+            ${CONFIDENCE_INSTRUCTION}
+
             Raw Text Data:
             ${textData}
             `,
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: customerListSchema,
-        systemInstruction: "You are a data parsing assistant. You convert raw spreadsheet text (tab-separated or unstructured) into structured JSON. You handle Turkish headers and values intelligently.",
-      },
+      schema: customerListSchema,
+      systemInstruction: "You are a data parsing assistant. You convert raw spreadsheet text (tab-separated or unstructured) into structured JSON. You handle Turkish headers and values intelligently.",
     });
 
-    if (response.text) {
-      const parsedData = JSON.parse(response.text);
-      // Map and ensure defaults to prevent undefined errors
-      return parsedData.map((c: any, index: number) => ({
-        company: c.company || "",
-        representative: c.representative || "",
-        phone: c.phone || "",
-        country: c.country || "",
-        email: c.email || "",
-        website: c.website || "",
-        notes: c.notes || "",
-        id: `cust-txt-${Date.now()}-${index}`,
-      }));
-    }
-    return [];
+    return toCustomers(parseRows(parseLLMJson(responseText)), 'cust-txt');
   } catch (error) {
     console.error("Text extraction error:", error);
-    throw new Error("Failed to parse text data.");
+    throw toLLMError(error);
   }
 };
 
+// "Name, Title at Company" from the active sender profile, leaving out whatever isn't set
+const describeSender = (sender: SenderProfile, senderCompany: string): string => {
+  return [[sender.name, sender.title].filter(Boolean).join(', '), senderCompany].filter(Boolean).join(' at ');
+};
+
 export const generateDraft = async (
   customer: Customer, 
   context: GenerationContext,
-  language: 'en' | 'ar' = 'en'
+  language: DraftLanguage = 'en',
+  sender: SenderProfile = DEFAULT_SENDER_PROFILE,
+  templates: TemplatePlan = { mode: 'style' }
 ): Promise<GeneratedMessage> => {
   try {
-    const isArabic = language === 'ar';
     const { senderCompany, exhibitionName, exhibitionLocation } = context;
+    const senderName = language === 'ar' ? arabicSenderName(sender) : sender.name;
+    const signature = buildSignature(sender, senderCompany);
+    const values = placeholderValues(customer, context, sender, language);
+
+    // Fully templated drafts need no LLM call
+    if (canFillLocally(templates)) {
+      return renderTemplates(templates.email!, templates.whatsapp!, values);
+    }
+
+    // Selected templates steer the LLM: it keeps their structure and tone but adapts the wording to the lead
+    const styleGuide = [
+      templates.email && `Email template (follow its structure, tone and length; keep the subject pattern):
+Subject: ${fillTemplate(templates.email.subject, values)}
+${fillTemplate(templates.email.body, values)}`,
+      templates.whatsapp && `WhatsApp template (follow its line structure and tone):
+${fillTemplate(templates.whatsapp.body, values)}`,
+    ].filter(Boolean).join('\n\n');
     
-    // Instructions for WhatsApp style
-    const whatsappInstructions = isArabic 
-      ? `
-        Create a WhatsApp sequence in Arabic.
-        Tone: Friendly, Respectful, Egyptian/White Arabic Business Style.
-        
-        Salutation Logic (Crucial):
-        - Analyze "Recipient Name" and "Recipient Email".
-        - If "Recipient Name" is missing or generic, try to extract the First Name from "Recipient Email" (e.g. ahmad.ghazzoul@... -> Name is Ahmed).
-        - Use respectful titles: "أستاذ [First Name]" (Mr.) or "باشمهندس [First Name]" (if company/notes imply engineering/construction).
-        - ALWAYS use "حضرتك" (Hadretak) instead of "انت" (Enta) to show respect.
-        - If the name is completely unknown, use "يا فندم".
-
-        Format: 4-5 short, distinct lines suitable for chat.
-        START STRICTLY WITH: "السلام عليكم" or "السلام عليكم ورحمة الله وبركاته".
-        
-        Follow this flow:
-        1. Greeting (Salam).
-        2. Respectful check-in (e.g., "أخبار حضرتك إيه يا أستاذ [Name]" / "يا رب حضرتك تكون بخير").
-        3. Identity (e.g., "مع حضرتك أحمد شرف من شركة ${senderCompany}").
-        4. Context (e.g., "حضرتك شرفتنا في معرض ${exhibitionName}").
-        5. Specific Need (Directly reference the notes, e.g., "بخصوص اهتمام حضرتك بـ [Product]" / "بخصوص استفسار حضرتك عن [Product]").
-        
-        Do not be overly formal like a government letter, but be respectful like a high-end sales professional.
-      `
-      : `
-        Create a WhatsApp sequence in English.
-        It must be CASUAL, DIRECT, and consist of 4-5 short, separate lines. 
-        NO "Dear...", NO "Sincerely". 
-        
-        Name Logic:
-        - If "Recipient Name" is missing, try to extract the First Name from "Recipient Email".
-        
-        Example flow:
-        Line 1: Hello [Name]
-        Line 2: How is everything going?
-        Line 3: This is Ahmed Seref from ${senderCompany}
-        Line 4: We met at the ${exhibitionName}
-        Line 5: [Refer to specific notes: e.g., You asked for the MDF kit prices]
-      `;
-
-    const emailInstructions = isArabic
-      ? `Write a professional business email in Arabic.
-         Addressing: Start with "السيد الأستاذ/ [Name]" or "المهندس/ [Name]" (Infer name from email if Rep Name is missing).
-         Subject Line: Create a specific subject line referencing the product/interest from the notes (e.g. "بخصوص استفساركم عن [Product Name] - ${exhibitionName}").
-         Context: Mention we met at ${exhibitionName} in ${exhibitionLocation}.`
-      : `Write a professional business email in English.
-         Subject Line: Create a high-converting, attention-grabbing subject line that explicitly references the specific product or interest mentioned in the notes (e.g. "Pricing for [Product Name] - ${exhibitionName}", "Your interest in [Product] at ${senderCompany} stand"). Avoid generic subjects like "Hello" or "Follow up".
-         Context: Mention we met at ${exhibitionName} in ${exhibitionLocation}.`;
+    const details = {
+      senderName,
+      senderCompany,
+      exhibitionName,
+      exhibitionLocation,
+      signature,
+      countryCode: detectCountry(customer.country)?.code,
+    };
+    const whatsappInstructions = getLanguage(language).whatsappRules(details);
+    const emailInstructions = getLanguage(language).emailRules(details);
 
     const prompt = `
-      Sender: Ahmed Seref, Export Executive at ${senderCompany} (Akfix.com).
+      Sender: ${describeSender(sender, senderCompany)}.
       Recipient Name: "${customer.representative || ''}".
       Recipient Email: "${customer.email || ''}".
       Company: "${customer.company}".
@@ -186,48 +248,212 @@ export const generateDraft = async (
       1. ${emailInstructions}
       2. ${whatsappInstructions}
       
+      ${styleGuide ? `Style guide, which takes precedence over the tone rules above:\n${styleGuide}\n` : ''}
       Output JSON with 'emailSubject', 'emailBody', and 'whatsappBody'. 
       For 'whatsappBody', join the short lines with actual newlines characters (\\n) so they look like a chat history.
     `;
 
-    const messageSchema: Schema = {
-      type: Type.OBJECT,
+    const messageSchema: JsonSchema = {
+      type: 'object',
       properties: {
-        emailSubject: { type: Type.STRING },
-        emailBody: { type: Type.STRING },
-        whatsappBody: { type: Type.STRING },
+        emailSubject: { type: 'string' },
+        emailBody: { type: 'string' },
+        whatsappBody: { type: 'string' },
       },
       required: ["emailSubject", "emailBody", "whatsappBody"],
     };
 
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: messageSchema,
-        temperature: 0.7, 
+    const responseText = await getProvider().generateJSON({
+      task: 'generateDraft',
+      prompt,
+      schema: messageSchema,
+      temperature: 0.7,
+      fields: {
+        ...context,
+        company: customer.company,
+        representative: customer.representative,
+        email: customer.email,
+        notes: customer.notes,
+        senderName,
+        signature,
+        language,
       },
     });
 
-    if (response.text) {
-        const data = JSON.parse(response.text);
-        return {
-            subject: data.emailSubject,
-            body: data.emailBody,
-            type: 'email',
-            whatsappBody: data.whatsappBody // Helper to carry specific body if needed
+    const data = parseMessage(parseLLMJson(responseText));
+    if (!data.emailBody && !data.whatsappBody) throw new LLMError('empty');
+    return {
+        subject: data.emailSubject,
+        body: data.emailBody,
+        type: 'email',
+        whatsappBody: data.whatsappBody // Helper to carry specific body if needed
+    };
+  } catch (error) {
+    console.error("Generation error:", error);
+    throw toLLMError(error);
+  }
+};
+
+export const generateFollowUp = async (
+  customer: Customer,
+  context: GenerationContext,
+  language: DraftLanguage,
+  sender: SenderProfile,
+  step: SequenceStep,
+  history: FollowUpHistoryEntry[]
+): Promise<GeneratedMessage> => {
+  try {
+    const { senderCompany, exhibitionName, exhibitionLocation } = context;
+    const senderName = language === 'ar' ? arabicSenderName(sender) : sender.name;
+    const signature = buildSignature(sender, senderCompany);
+    const details = {
+      senderName,
+      senderCompany,
+      exhibitionName,
+      exhibitionLocation,
+      signature,
+      countryCode: detectCountry(customer.country)?.code,
+    };
+    const isEmail = step.channel === 'email';
+    const rules = isEmail ? getLanguage(language).emailRules(details) : getLanguage(language).whatsappRules(details);
+
+    const earlier = history.map(entry => `Day ${entry.dayOffset} (${entry.channel}):
+${entry.subject ? `Subject: ${entry.subject}\n` : ''}${entry.body}`).join('\n---\n');
+
+    const prompt = `
+      Sender: ${describeSender(sender, senderCompany)}.
+      Recipient Name: "${customer.representative || ''}".
+      Recipient Email: "${customer.email || ''}".
+      Company: "${customer.company}".
+      Specific Notes from Fair: "${customer.notes}".
+      Campaign Context: Exhibition "${exhibitionName}" in "${exhibitionLocation}".
+
+      This is a follow-up on day ${step.dayOffset} after our first message. The lead has not replied yet.
+      Goal of this message: ${step.purpose || 'Friendly follow-up'}.
+
+      Messages already sent to this lead, oldest first:
+      ${earlier || '(none)'}
+
+      Build on these: do not repeat their wording or re-introduce yourself at length, and refer back to them naturally.
+
+      Task: ${rules}
+
+      ${isEmail
+        ? "Output JSON with 'emailSubject' and 'emailBody'."
+        : "Output JSON with 'whatsappBody', joining the short lines with actual newline characters (\\n)."}
+    `;
+
+    const schema: JsonSchema = isEmail
+      ? {
+          type: 'object',
+          properties: { emailSubject: { type: 'string' }, emailBody: { type: 'string' } },
+          required: ["emailSubject", "emailBody"],
+        }
+      : {
+          type: 'object',
+          properties: { whatsappBody: { type: 'string' } },
+          required: ["whatsappBody"],
         };
-    }
-    
-    throw new Error("No response generated");
 
+    const responseText = await getProvider().generateJSON({
+      task: 'generateFollowUp',
+      prompt,
+      schema,
+      temperature: 0.7,
+      fields: {
+        ...context,
+        company: customer.company,
+        representative: customer.representative,
+        notes: customer.notes,
+        senderName,
+        signature,
+        language,
+        channel: step.channel,
+        purpose: step.purpose,
+        dayOffset: String(step.dayOffset),
+      },
+    });
+
+    const data = parseMessage(parseLLMJson(responseText));
+    if (!(isEmail ? data.emailBody : data.whatsappBody)) throw new LLMError('empty');
+    return isEmail
+      ? { subject: data.emailSubject, body: data.emailBody, type: 'email', language }
+      : { subject: '', body: data.whatsappBody, whatsappBody: data.whatsappBody, type: 'whatsapp', language };
   } catch (error) {
-    console.error("Generation error:", error);
-    return {
-      subject: "Follow up",
-      body: "Error generating draft.",
-      type: 'email'
+    console.error("Follow-up generation error:", error);
+    throw toLLMError(error);
+  }
+};
+
+export const generateReply = async (
+  customer: Customer,
+  context: GenerationContext,
+  language: DraftLanguage,
+  sender: SenderProfile,
+  channel: TemplateChannel,
+  subject: string,
+  conversation: ConversationEntry[]
+): Promise<GeneratedMessage> => {
+  try {
+    const { senderCompany, exhibitionName, exhibitionLocation } = context;
+    const senderName = language === 'ar' ? arabicSenderName(sender) : sender.name;
+    const signature = buildSignature(sender, senderCompany);
+    const isEmail = channel === 'email';
+
+    const transcript = conversation.map(entry => `${entry.direction === 'inbound' ? 'Customer' : 'Us'} (${entry.channel}):
+${entry.subject ? `Subject: ${entry.subject}\n` : ''}${entry.body}`).join('\n---\n');
+
+    const prompt = `
+      Sender: ${describeSender(sender, senderCompany)}.
+      Recipient Name: "${customer.representative || ''}".
+      Company: "${customer.company}".
+      Specific Notes from Fair: "${customer.notes}".
+      Campaign Context: Exhibition "${exhibitionName}" in "${exhibitionLocation}".
+
+      The customer has replied to our outreach. Conversation so far, oldest first:
+      ${transcript}
+
+      Task: Write our answer to the customer's latest message, in ${getLanguage(language).label}, the language they wrote in.
+      Answer every question they asked and move the deal forward (samples, price list, quotation or a call), using the fair notes where they help.
+      Do not invent prices, stock levels or delivery dates; say we will confirm them instead.
+      ${isEmail
+        ? `Write it as a business email reply. Sign off with this signature block exactly:\n${signature}`
+        : `Write it as a short, friendly WhatsApp message of 2-4 lines from ${senderName}.`}
+
+      Output JSON with '${isEmail ? 'emailBody' : 'whatsappBody'}'.
+    `;
+
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { [isEmail ? 'emailBody' : 'whatsappBody']: { type: 'string' } },
+      required: [isEmail ? 'emailBody' : 'whatsappBody'],
     };
+
+    const responseText = await getProvider().generateJSON({
+      task: 'generateReply',
+      prompt,
+      schema,
+      temperature: 0.5,
+      fields: {
+        ...context,
+        company: customer.company,
+        representative: customer.representative,
+        notes: customer.notes,
+        senderName,
+        signature,
+        language,
+        channel,
+        lastReply: [...conversation].reverse().find(entry => entry.direction === 'inbound')?.body || '',
+      },
+    });
+
+    const data = parseMessage(parseLLMJson(responseText));
+    if (!(isEmail ? data.emailBody : data.whatsappBody)) throw new LLMError('empty');
+    return isEmail
+      ? { subject, body: data.emailBody, type: 'email', language }
+      : { subject: '', body: data.whatsappBody, whatsappBody: data.whatsappBody, type: 'whatsapp', language };
+  } catch (error) {
+    console.error("Reply generation error:", error);
+    throw toLLMError(error);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,140 @@
+import { ProcessingStatus } from "../types";
+import { isRetryableError } from "./llmError";
+
+export interface JobQueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs?: number;
+  intervalMs?: number; // Pause each worker takes between jobs, e.g. to stay under a mail server's rate limit
+}
+
+export interface JobQueue {
+  pause: () => void;
+  resume: () => void;
+  // Stops starting new jobs; jobs already talking to the provider still finish
+  cancel: () => void;
+  finished: Promise<ProcessingStatus>;
+}
+
+const DEFAULT_BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60000;
+
+// Doubles with every attempt, with jitter so parallel workers don't retry in lockstep
+export const backoffDelay = (attempt: number, baseDelayMs: number = DEFAULT_BASE_DELAY_MS): number => {
+  return Math.min(MAX_DELAY_MS, baseDelayMs * 2 ** attempt) * (0.75 + Math.random() * 0.5);
+};
+
+// Runs `worker` over every item with limited concurrency, retrying rate-limit and server errors
+export const runJobQueue = <T>(
+  items: T[],
+  worker: (item: T) => Promise<void>,
+  options: JobQueueOptions,
+  onProgress: (status: ProcessingStatus) => void
+): JobQueue => {
+  const pending = [...items];
+  const startedAt = Date.now();
+  let paused = false;
+  let cancelled = false;
+  let pausedAt = 0;
+  let pausedMs = 0;
+  let progress = 0;
+  let failed = 0;
+  // Workers parked on a pause (resume wakes them) or a backoff delay (only cancel cuts it short)
+  let sleepers: { wake: () => void; timed: boolean }[] = [];
+
+  const status = (isGenerating: boolean): ProcessingStatus => {
+    const activeMs = Date.now() - startedAt - pausedMs - (paused ? Date.now() - pausedAt : 0);
+    return {
+      isGenerating,
+      isPaused: paused,
+      progress,
+      failed,
+      total: items.length,
+      etaMs: progress > 0 ? (activeMs / progress) * (items.length - progress) : undefined,
+    };
+  };
+
+  const sleep = (ms?: number) => new Promise<void>(resolve => {
+    const sleeper = {
+      wake: () => {
+        clearTimeout(timer);
+        sleepers = sleepers.filter(s => s !== sleeper);
+        resolve();
+      },
+      timed: ms !== undefined,
+    };
+    const timer = ms === undefined ? undefined : setTimeout(sleeper.wake, ms);
+    sleepers.push(sleeper);
+  });
+
+  const wake = (includeTimed: boolean) => {
+    sleepers.filter(s => includeTimed || !s.timed).forEach(s => s.wake());
+  };
+
+  const waitWhilePaused = async () => {
+    while (paused && !cancelled) await sleep();
+  };
+
+  const runWithRetry = async (item: T): Promise<'done' | 'failed' | 'cancelled'> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await worker(item);
+        return 'done';
+      } catch (error) {
+        if (cancelled || attempt >= options.maxRetries || !isRetryableError(error)) {
+          console.error("Queue job error:", error);
+          return 'failed';
+        }
+        await sleep(backoffDelay(attempt, options.baseDelayMs));
+        await waitWhilePaused();
+        if (cancelled) return 'cancelled';
+      }
+    }
+  };
+
+  const runWorker = async () => {
+    while (!cancelled) {
+      await waitWhilePaused();
+      if (cancelled || pending.length === 0) return;
+      const item = pending.shift() as T;
+      const result = await runWithRetry(item);
+      if (result === 'cancelled') return;
+      progress++;
+      if (result === 'failed') failed++;
+      onProgress(status(true));
+      if (options.intervalMs && pending.length > 0 && !cancelled) await sleep(options.intervalMs);
+    }
+  };
+
+  onProgress(status(true));
+  const workerCount = Math.max(1, Math.min(options.concurrency, items.length));
+  const finished = Promise.all(Array.from({ length: workerCount }, runWorker)).then(() => {
+    paused = false;
+    const final = status(false);
+    onProgress(final);
+    return final;
+  });
+
+  return {
+    pause: () => {
+      if (paused || cancelled) return;
+      paused = true;
+      pausedAt = Date.now();
+      onProgress(status(true));
+    },
+    resume: () => {
+      if (!paused) return;
+      paused = false;
+      pausedMs += Date.now() - pausedAt;
+      wake(false);
+      onProgress(status(true));
+    },
+    cancel: () => {
+      cancelled = true;
+      if (paused) pausedMs += Date.now() - pausedAt;
+      paused = false;
+      wake(true);
+    },
+    finished,
+  };
+};
@@ -0,0 +1,286 @@
+import { DraftLanguage } from "../types";
+import { detectCountry } from "./countryService";
+
+// Campaign and sender details the per-language prompt rules refer to
+export interface PromptDetails {
+  senderName: string;
+  senderCompany: string;
+  exhibitionName: string;
+  exhibitionLocation: string;
+  signature: string;
+  countryCode?: string; // Lead's country, for regional variants (e.g. Brazilian vs European Portuguese)
+}
+
+export interface LanguageInfo {
+  code: DraftLanguage;
+  label: string;
+  flag: string;
+  dir: 'ltr' | 'rtl';
+  countries: string[]; // ISO codes of countries whose leads get this language by default
+  genericProduct: string; // {{product}} when the notes name no product
+  script?: RegExp; // Characters that identify the language on their own
+  commonWords: string[]; // Frequent short words, for telling Latin-script replies apart
+  emailRules: (d: PromptDetails) => string;
+  whatsappRules: (d: PromptDetails) => string;
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  {
+    code: 'en',
+    label: 'English',
+    flag: '🇺🇸',
+    dir: 'ltr',
+    countries: [],
+    genericProduct: 'our products',
+    commonWords: ['the', 'and', 'you', 'we', 'please', 'thanks', 'thank', 'price', 'for', 'is'],
+    emailRules: d => `Write a professional business email in English.
+         Subject Line: Create a high-converting, attention-grabbing subject line that explicitly references the specific product or interest mentioned in the notes (e.g. "Pricing for [Product Name] - ${d.exhibitionName}", "Your interest in [Product] at ${d.senderCompany} stand"). Avoid generic subjects like "Hello" or "Follow up".
+         Context: Mention we met at ${d.exhibitionName} in ${d.exhibitionLocation}.
+         Sign-off: End the email with "Best regards," followed by this signature block exactly:
+${d.signature}`,
+    whatsappRules: d => `
+        Create a WhatsApp sequence in English.
+        It must be CASUAL, DIRECT, and consist of 4-5 short, separate lines.
+        NO "Dear...", NO "Sincerely".
+
+        Name Logic:
+        - If "Recipient Name" is missing, try to extract the First Name from "Recipient Email".
+
+        Example flow:
+        Line 1: Hello [Name]
+        Line 2: How is everything going?
+        Line 3: This is ${d.senderName} from ${d.senderCompany}
+        Line 4: We met at the ${d.exhibitionName}
+        Line 5: [Refer to specific notes: e.g., You asked for the MDF kit prices]
+      `,
+  },
+  {
+    code: 'ar',
+    label: 'Arabic',
+    flag: '🇪🇬',
+    dir: 'rtl',
+    countries: ['SA', 'AE', 'EG', 'IQ', 'JO', 'KW', 'QA', 'BH', 'OM', 'LB', 'SY', 'YE', 'LY', 'SD'],
+    genericProduct: 'منتجاتنا',
+    script: /[\u0600-\u06FF]/,
+    commonWords: [],
+    emailRules: d => `Write a professional business email in Arabic.
+         Addressing: Start with "السيد الأستاذ/ [Name]" or "المهندس/ [Name]" (Infer name from email if Rep Name is missing).
+         Subject Line: Create a specific subject line referencing the product/interest from the notes (e.g. "بخصوص استفساركم عن [Product Name] - ${d.exhibitionName}").
+         Context: Mention we met at ${d.exhibitionName} in ${d.exhibitionLocation}.
+         Sign-off: End the email with a short Arabic closing followed by this signature block exactly:
+${d.signature}`,
+    whatsappRules: d => `
+        Create a WhatsApp sequence in Arabic.
+        Tone: Friendly, Respectful, Egyptian/White Arabic Business Style.
+
+        Salutation Logic (Crucial):
+        - Analyze "Recipient Name" and "Recipient Email".
+        - If "Recipient Name" is missing or generic, try to extract the First Name from "Recipient Email" (e.g. ahmad.ghazzoul@... -> Name is Ahmed).
+        - Use respectful titles: "أستاذ [First Name]" (Mr.) or "باشمهندس [First Name]" (if company/notes imply engineering/construction).
+        - ALWAYS use "حضرتك" (Hadretak) instead of "انت" (Enta) to show respect.
+        - If the name is completely unknown, use "يا فندم".
+
+        Format: 4-5 short, distinct lines suitable for chat.
+        START STRICTLY WITH: "السلام عليكم" or "السلام عليكم ورحمة الله وبركاته".
+
+        Follow this flow:
+        1. Greeting (Salam).
+        2. Respectful check-in (e.g., "أخبار حضرتك إيه يا أستاذ [Name]" / "يا رب حضرتك تكون بخير").
+        3. Identity (e.g., "مع حضرتك ${d.senderName} من شركة ${d.senderCompany}").
+        4. Context (e.g., "حضرتك شرفتنا في معرض ${d.exhibitionName}").
+        5. Specific Need (Directly reference the notes, e.g., "بخصوص اهتمام حضرتك بـ [Product]" / "بخصوص استفسار حضرتك عن [Product]").
+
+        Do not be overly formal like a government letter, but be respectful like a high-end sales professional.
+      `,
+  },
+  {
+    code: 'tr',
+    label: 'Turkish',
+    flag: '🇹🇷',
+    dir: 'ltr',
+    countries: ['TR', 'AZ'],
+    genericProduct: 'ürünlerimiz',
+    script: /[\u011F\u0131\u015F\u011E\u0130\u015E]/,
+    commonWords: ['ve', 'bir', 'için', 'merhaba', 'teşekkürler', 'fiyat', 'bu', 'ile', 'lütfen'],
+    emailRules: d => `Write a professional business email in Turkish.
+         Addressing: "Sayın [Ad Soyad]," and add "Bey" / "Hanım" after the first name only when the gender is clear ("Sayın Mehmet Bey,"). If the name is unknown, use "Sayın Yetkili,".
+         Always use the formal "siz" form.
+         Subject Line: Reference the product or interest from the notes (e.g. "[Ürün] hakkında - ${d.exhibitionName}").
+         Context: Thank them for visiting our stand at ${d.exhibitionName} in ${d.exhibitionLocation}.
+         Sign-off: End with "Saygılarımızla," followed by this signature block exactly:
+${d.signature}`,
+    whatsappRules: d => `
+        Create a WhatsApp sequence in Turkish, 4-5 short separate lines.
+        Tone: warm and friendly but respectful; always "siz", never "sen".
+        Salutation: "Merhaba [First Name] Bey" / "Merhaba [First Name] Hanım" when the gender is clear, otherwise "Merhaba".
+        Flow:
+        1. Greeting and a short "Nasılsınız?".
+        2. Identity (e.g. "Ben ${d.senderName}, ${d.senderCompany}").
+        3. Context (e.g. "${d.exhibitionName} fuarında görüşmüştük").
+        4. Specific need from the notes (e.g. "[Ürün] için fiyat listesini göndermemi ister misiniz?").
+      `,
+  },
+  {
+    code: 'ru',
+    label: 'Russian',
+    flag: '🇷🇺',
+    dir: 'ltr',
+    countries: ['RU', 'KZ'],
+    genericProduct: 'нашей продукции',
+    script: /[\u0400-\u04FF]/,
+    commonWords: [],
+    emailRules: d => `Write a professional business email in Russian.
+         Addressing: "Уважаемый [Имя Отчество]!" or "Уважаемая [Имя Отчество]!" matching the gender; use the first name alone if no patronymic is known. If the name is unknown, use "Добрый день!".
+         Always address the reader as "Вы" with a capital letter.
+         Subject Line: Reference the product or interest from the notes (e.g. "[Продукт] - по итогам выставки ${d.exhibitionName}").
+         Context: Mention we met at ${d.exhibitionName} in ${d.exhibitionLocation}.
+         Sign-off: End with "С уважением," followed by this signature block exactly:
+${d.signature}`,
+    whatsappRules: d => `
+        Create a WhatsApp sequence in Russian, 4-5 short separate lines.
+        Tone: polite and businesslike; always "Вы", never "ты"; no "Привет".
+        Salutation: "Здравствуйте, [Имя]!" or "Добрый день, [Имя]!"; just "Здравствуйте!" if the name is unknown.
+        Flow:
+        1. Greeting.
+        2. Identity (e.g. "Это ${d.senderName}, компания ${d.senderCompany}").
+        3. Context (e.g. "Мы познакомились на выставке ${d.exhibitionName}").
+        4. Specific need from the notes (e.g. "Вы интересовались [продукт], могу прислать прайс-лист").
+      `,
+  },
+  {
+    code: 'fr',
+    label: 'French',
+    flag: '🇫🇷',
+    dir: 'ltr',
+    // Maghreb trade correspondence is mostly in French
+    countries: ['FR', 'BE', 'SN', 'CM', 'CD', 'DZ', 'MA', 'TN'],
+    genericProduct: 'nos produits',
+    commonWords: ['bonjour', 'merci', 'nous', 'vous', 'les', 'est', 'pour', 'avec', 'des', 'prix'],
+    emailRules: d => `Write a professional business email in French.
+         Addressing: "Bonjour Monsieur [Nom]," or "Bonjour Madame [Nom]," when the gender is clear, otherwise "Madame, Monsieur,".
+         Always use "vous".
+         Subject Line: Reference the product or interest from the notes (e.g. "Suite à votre intérêt pour [Produit] - ${d.exhibitionName}").
+         Context: Mention we met at ${d.exhibitionName} in ${d.exhibitionLocation}.
+         Sign-off: End with "Cordialement," followed by this signature block exactly:
+${d.signature}`,
+    whatsappRules: d => `
+        Create a WhatsApp sequence in French, 4-5 short separate lines.
+        Tone: friendly and professional; always "vous", never "tu".
+        Salutation: "Bonjour [Prénom]" or "Bonjour Monsieur/Madame [Nom]"; just "Bonjour" if the name is unknown.
+        Flow:
+        1. Greeting and "J'espère que vous allez bien".
+        2. Identity (e.g. "C'est ${d.senderName} de ${d.senderCompany}").
+        3. Context (e.g. "Nous nous sommes rencontrés au salon ${d.exhibitionName}").
+        4. Specific need from the notes (e.g. "Vous vouliez les prix de [Produit]").
+      `,
+  },
+  {
+    code: 'es',
+    label: 'Spanish',
+    flag: '🇪🇸',
+    dir: 'ltr',
+    countries: ['ES', 'MX', 'AR', 'CL', 'CO', 'PE'],
+    genericProduct: 'nuestros productos',
+    commonWords: ['hola', 'gracias', 'los', 'para', 'por', 'con', 'usted', 'precio', 'que', 'el'],
+    emailRules: d => `Write a professional business email in Spanish${d.countryCode && d.countryCode !== 'ES' ? ' (Latin American usage)' : ''}.
+         Addressing: "Estimado [Nombre]:" or "Estimada [Nombre]:" matching the gender; "Estimados señores:" if the name is unknown.
+         Use "usted".
+         Subject Line: Reference the product or interest from the notes (e.g. "Su interés en [Producto] - ${d.exhibitionName}").
+         Context: Mention we met at ${d.exhibitionName} in ${d.exhibitionLocation}.
+         Sign-off: End with "Saludos cordiales," followed by this signature block exactly:
+${d.signature}`,
+    whatsappRules: d => `
+        Create a WhatsApp sequence in Spanish, 4-5 short separate lines.
+        Tone: warm and direct but respectful; use "usted".
+        Salutation: "Hola [Nombre], ¿cómo está?"; "Hola, buenos días" if the name is unknown.
+        Flow:
+        1. Greeting.
+        2. Identity (e.g. "Le escribe ${d.senderName} de ${d.senderCompany}").
+        3. Context (e.g. "Nos conocimos en ${d.exhibitionName}").
+        4. Specific need from the notes (e.g. "Me pidió precios de [Producto]").
+      `,
+  },
+  {
+    code: 'pt',
+    label: 'Portuguese',
+    flag: '🇧🇷',
+    dir: 'ltr',
+    countries: ['BR', 'PT'],
+    genericProduct: 'nossos produtos',
+    commonWords: ['olá', 'obrigado', 'obrigada', 'você', 'não', 'com', 'os', 'uma', 'preço', 'para'],
+    emailRules: d => `Write a professional business email in ${d.countryCode === 'PT' ? 'European' : 'Brazilian'} Portuguese.
+         Addressing: "Prezado Sr. [Nome]," or "Prezada Sra. [Nome]," matching the gender; "Prezados Senhores," if the name is unknown.
+         Subject Line: Reference the product or interest from the notes (e.g. "Seu interesse em [Produto] - ${d.exhibitionName}").
+         Context: Mention we met at ${d.exhibitionName} in ${d.exhibitionLocation}.
+         Sign-off: End with "Atenciosamente," followed by this signature block exactly:
+${d.signature}`,
+    whatsappRules: d => `
+        Create a WhatsApp sequence in ${d.countryCode === 'PT' ? 'European' : 'Brazilian'} Portuguese, 4-5 short separate lines.
+        Tone: friendly and warm, still professional. ${d.countryCode === 'PT' ? 'Address the reader in the third person ("o senhor" / "a senhora").' : 'Use "você".'}
+        Salutation: "Olá [Nome], tudo bem?"; "Olá, bom dia" if the name is unknown.
+        Flow:
+        1. Greeting.
+        2. Identity (e.g. "Aqui é ${d.senderName}, da ${d.senderCompany}").
+        3. Context (e.g. "Nos conhecemos na ${d.exhibitionName}").
+        4. Specific need from the notes (e.g. "Você pediu os preços de [Produto]").
+      `,
+  },
+  {
+    code: 'zh',
+    label: 'Chinese',
+    flag: '🇨🇳',
+    dir: 'ltr',
+    countries: ['CN'],
+    genericProduct: '我们的产品',
+    script: /[\u4E00-\u9FFF]/,
+    commonWords: [],
+    emailRules: d => `Write a professional business email in Simplified Chinese.
+         Addressing: "尊敬的[姓]先生：" or "尊敬的[姓]女士：" matching the gender, or "[姓]总：" for a company owner or manager; "您好：" if the name is unknown.
+         Always use "您".
+         Subject Line: Reference the product or interest from the notes (e.g. "关于[产品]的报价 - ${d.exhibitionName}").
+         Context: Mention we met at ${d.exhibitionName} in ${d.exhibitionLocation}.
+         Sign-off: End with "顺祝商祺！" followed by this signature block exactly:
+${d.signature}`,
+    whatsappRules: d => `
+        Create a WhatsApp sequence in Simplified Chinese, 4-5 short separate lines.
+        Tone: polite and concise; always "您".
+        Salutation: "[姓]总您好" or "[姓]先生/女士您好"; just "您好" if the name is unknown.
+        Flow:
+        1. Greeting.
+        2. Identity (e.g. "我是${d.senderCompany}的${d.senderName}").
+        3. Context (e.g. "我们在${d.exhibitionName}见过面").
+        4. Specific need from the notes (e.g. "您之前咨询过[产品]，我把报价发给您？").
+      `,
+  },
+];
+
+export const getLanguage = (code: DraftLanguage | undefined): LanguageInfo => {
+  return LANGUAGES.find(l => l.code === code) || LANGUAGES[0];
+};
+
+// Default draft language for a lead, from the country or address field; English when unknown
+export const languageForCountry = (countryText: string): DraftLanguage => {
+  const country = detectCountry(countryText);
+  if (!country) return 'en';
+  return LANGUAGES.find(l => l.countries.includes(country.code))?.code || 'en';
+};
+
+// Language a customer wrote in: script first, then the most common-word hits. Undefined when nothing stands out.
+export const detectLanguage = (text: string): DraftLanguage | undefined => {
+  const scripted = LANGUAGES.find(l => l.script?.test(text));
+  if (scripted) return scripted.code;
+
+  const words = text.toLowerCase().split(/[^a-z\u00C0-\u024F]+/).filter(Boolean);
+  let best: { code: DraftLanguage; hits: number } | undefined;
+  LANGUAGES.forEach(l => {
+    const hits = words.filter(w => l.commonWords.includes(w)).length;
+    if (hits > 0 && (!best || hits > best.hits)) best = { code: l.code, hits };
+  });
+  return best?.code;
+};
+
+// Drafts saved before they recorded a language fall back to spotting Arabic script
+export const textDirection = (language: DraftLanguage | undefined, text: string = ''): 'ltr' | 'rtl' => {
+  if (language) return getLanguage(language).dir;
+  return /[\u0600-\u06FF]/.test(text) ? 'rtl' : 'ltr';
+};
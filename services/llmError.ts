@@ -0,0 +1,68 @@
+export type LLMErrorKind = 'quota' | 'safety' | 'auth' | 'invalidJson' | 'network' | 'empty' | 'unknown';
+
+const ERROR_MESSAGES: Record<LLMErrorKind, string> = {
+  quota: 'Rate limit or quota reached. Wait a moment, then retry.',
+  safety: 'The AI provider blocked this request for safety reasons. Check the notes for unusual content.',
+  auth: 'The AI provider rejected the API key, or it has no access to this model. Check the key and model in Settings.',
+  invalidJson: 'The AI returned malformed data. Retrying usually helps.',
+  network: 'Could not reach the AI provider, or it is overloaded. Check the connection and endpoint.',
+  empty: 'The AI returned an empty result.',
+  unknown: 'The AI request failed.',
+};
+
+// A failed LLM call, classified so the UI can explain it and the queue can decide whether to retry
+export class LLMError extends Error {
+  kind: LLMErrorKind;
+  detail: string; // Original provider message, for the console and tooltips
+
+  constructor(kind: LLMErrorKind, detail: string = '', message: string = ERROR_MESSAGES[kind]) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.detail = detail;
+  }
+}
+
+// Gemini's status names for overload and quota; both SDK errors and raw responses carry them verbatim
+const QUOTA_CODES = /\bRESOURCE_EXHAUSTED\b/;
+const SERVER_CODES = /\b(UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED)\b/;
+const AUTH_CODES = /\b(UNAUTHENTICATED|PERMISSION_DENIED|API_KEY_INVALID)\b/;
+// Gemini's finishReason / blockReason values; the providers turn these into LLMErrors themselves,
+// this only catches them when they surface inside another error
+const SAFETY_CODES = /\b(SAFETY|PROHIBITED_CONTENT|BLOCKLIST)\b/;
+// Raised by fetch itself when no HTTP response arrived, so there is no status to go by
+const TRANSPORT_ERRORS = /Failed to fetch|NetworkError|Load failed|ECONNREFUSED|ECONNRESET|ETIMEDOUT/;
+
+// Classified from the HTTP status or the provider's error code, never from numbers in the message text,
+// which may just as well be a token limit or a row id
+export const toLLMError = (error: unknown): LLMError => {
+  if (error instanceof LLMError) return error;
+  const detail = error instanceof Error ? error.message : String(error);
+  const rawStatus = (error as { status?: unknown } | null)?.status;
+  const status = typeof rawStatus === 'number' ? rawStatus : undefined;
+
+  if (error instanceof SyntaxError) return new LLMError('invalidJson', detail);
+  if (status === 429 || (status === undefined && QUOTA_CODES.test(detail))) return new LLMError('quota', detail);
+  if ((status !== undefined && (status >= 500 || status === 408)) || (status === undefined && (SERVER_CODES.test(detail) || TRANSPORT_ERRORS.test(detail)))) {
+    return new LLMError('network', detail);
+  }
+  if (status === 401 || status === 403 || (status === undefined && AUTH_CODES.test(detail))) return new LLMError('auth', detail);
+  if (SAFETY_CODES.test(detail)) return new LLMError('safety', detail);
+  return new LLMError('unknown', detail, detail ? `${ERROR_MESSAGES.unknown} ${detail}` : ERROR_MESSAGES.unknown);
+};
+
+// Rate limits and dropped or overloaded connections are worth retrying; bad requests and auth errors are not
+export const isRetryableError = (error: unknown): boolean => {
+  const { kind } = toLLMError(error);
+  return kind === 'quota' || kind === 'network';
+};
+
+// Parses a provider response, telling an empty answer apart from a malformed one
+export const parseLLMJson = (text: string): unknown => {
+  if (!text.trim()) throw new LLMError('empty');
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new LLMError('invalidJson', error instanceof Error ? error.message : String(error));
+  }
+};
@@ -0,0 +1,74 @@
+import { LLMProviderId, LLMSettings } from "../types";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createOpenAIProvider } from "./providers/openaiProvider";
+import { createMockProvider } from "./providers/mockProvider";
+
+// Provider-neutral subset of JSON Schema; each provider translates it to its own format
+export interface JsonSchema {
+  type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export type LLMTask = 'extractImage' | 'extractDocument' | 'extractText' | 'generateDraft' | 'generateFollowUp' | 'generateReply';
+
+export interface LLMRequest {
+  task: LLMTask;
+  prompt: string;
+  systemInstruction?: string;
+  attachment?: { mimeType: string; data: string }; // Image or PDF, base64 without the data: prefix
+  schema: JsonSchema;
+  temperature?: number;
+  // Structured inputs behind the prompt. Real models ignore them; the mock provider fills its fixtures from them.
+  fields?: Record<string, string>;
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  // Returns the raw JSON text produced by the model
+  generateJSON: (request: LLMRequest) => Promise<string>;
+}
+
+export const PROVIDER_OPTIONS: { id: LLMProviderId; label: string; defaultModel: string; defaultBaseUrl: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash', defaultBaseUrl: '' },
+  { id: 'openai', label: 'OpenAI-compatible (OpenAI, Ollama, llama.cpp)', defaultModel: 'llama3.1', defaultBaseUrl: 'http://localhost:11434/v1' },
+  { id: 'mock', label: 'Offline mock (fixtures)', defaultModel: 'fixtures', defaultBaseUrl: '' },
+];
+
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'gemini',
+  model: 'gemini-2.5-flash',
+  baseUrl: '',
+  apiKey: '',
+  concurrency: 3,
+  maxRetries: 4,
+};
+
+let activeSettings: LLMSettings = DEFAULT_LLM_SETTINGS;
+let activeProvider: LLMProvider | null = null;
+
+// Called whenever the user changes provider settings; the provider is rebuilt lazily
+export const configureProvider = (settings: LLMSettings) => {
+  activeSettings = settings;
+  activeProvider = null;
+};
+
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    switch (activeSettings.provider) {
+      case 'openai':
+        activeProvider = createOpenAIProvider(activeSettings);
+        break;
+      case 'mock':
+        activeProvider = createMockProvider();
+        break;
+      case 'gemini':
+      default:
+        activeProvider = createGeminiProvider(activeSettings);
+        break;
+    }
+  }
+  return activeProvider;
+};
@@ -0,0 +1,116 @@
+import { CountryInfo, detectCountry, findCountryByDialPrefix } from "./countryService";
+
+export type PhoneStatus = 'valid' | 'ambiguous' | 'invalid';
+
+export interface PhoneCheck {
+  raw: string;
+  e164: string | null; // "+966501234567" style, null when no usable number could be built
+  status: PhoneStatus;
+  message: string;
+  countryCode?: string;
+}
+
+// E.164 allows at most 15 digits including the country code
+const MAX_E164_DIGITS = 15;
+const MIN_E164_DIGITS = 8;
+
+// Splits a phone field that holds several numbers ("0501234567 / +971 4 123 4567")
+export const splitPhoneNumbers = (raw: string): string[] => {
+  if (!raw) return [];
+  // Split by comma, slash, ampersand, newline, or pipe
+  return raw.split(/[,/&\n|]+/).map(s => s.trim()).filter(s => s.length > 3);
+};
+
+const withCountry = (country: CountryInfo, national: string, raw: string, guessed: boolean): PhoneCheck => {
+  const e164 = `+${country.dialCode}${national}`;
+  if (!country.nationalLengths.includes(national.length)) {
+    return {
+      raw,
+      e164: null,
+      status: 'invalid',
+      message: `${country.name} numbers have ${country.nationalLengths.join(' or ')} digits after +${country.dialCode}, this one has ${national.length}.`,
+      countryCode: country.code,
+    };
+  }
+  return {
+    raw,
+    e164,
+    status: guessed ? 'ambiguous' : 'valid',
+    message: guessed ? `Assumed ${country.name} (+${country.dialCode}) from the number itself. Check before messaging.` : '',
+    countryCode: country.code,
+  };
+};
+
+// Removes the trunk prefix when doing so yields a valid length. Local numbers prefer the stripped
+// form; numbers after a country code prefer the digits as written, since a trunk digit can also
+// start a real number (Russian trunk '8' vs the St Petersburg area code 812).
+const stripTrunk = (country: CountryInfo, digits: string, preferStripped: boolean): string => {
+  if (!country.trunkPrefix || !digits.startsWith(country.trunkPrefix)) return digits;
+  const stripped = digits.slice(country.trunkPrefix.length);
+  const strippedValid = country.nationalLengths.includes(stripped.length);
+  const asIsValid = country.nationalLengths.includes(digits.length);
+  if (strippedValid && (preferStripped || !asIsValid)) return stripped;
+  return asIsValid ? digits : stripped;
+};
+
+// Normalizes one phone number to E.164, using the lead's country (address) to resolve local formats
+export const normalizePhone = (raw: string, countryText: string = ''): PhoneCheck => {
+  const trimmed = raw.trim();
+  let digits = trimmed.replace(/\D/g, '');
+  const international = trimmed.startsWith('+') || digits.startsWith('00');
+  if (digits.startsWith('00')) digits = digits.slice(2);
+
+  if (digits.length < 6) {
+    return { raw, e164: null, status: 'invalid', message: 'Too few digits for a phone number.' };
+  }
+
+  const country = detectCountry(countryText);
+
+  if (international) {
+    const dialCountry = country && digits.startsWith(country.dialCode) ? country : findCountryByDialPrefix(digits);
+    if (!dialCountry) {
+      const plausible = digits.length >= MIN_E164_DIGITS && digits.length <= MAX_E164_DIGITS;
+      return {
+        raw,
+        e164: plausible ? `+${digits}` : null,
+        status: plausible ? 'ambiguous' : 'invalid',
+        message: plausible ? 'Unrecognised country code. Check before messaging.' : 'Not a valid international number.',
+      };
+    }
+    // People often keep the trunk zero after the country code: "+90 (0)532 ..."
+    const national = stripTrunk(dialCountry, digits.slice(dialCountry.dialCode.length), false);
+    return withCountry(dialCountry, national, raw, false);
+  }
+
+  if (country) {
+    // Written with the country code but without '+' ("966501234567")
+    if (digits.startsWith(country.dialCode)) {
+      const national = digits.slice(country.dialCode.length);
+      if (country.nationalLengths.includes(national.length)) {
+        return withCountry(country, national, raw, false);
+      }
+    }
+    // Local format: "0501234567" in Saudi Arabia -> +966501234567
+    return withCountry(country, stripTrunk(country, digits, true), raw, false);
+  }
+
+  // No country to go on: accept it only if it reads as a full international number
+  const guessed = findCountryByDialPrefix(digits);
+  if (guessed) {
+    const national = digits.slice(guessed.dialCode.length);
+    if (guessed.nationalLengths.includes(national.length)) {
+      return withCountry(guessed, national, raw, true);
+    }
+  }
+  return {
+    raw,
+    e164: null,
+    status: 'invalid',
+    message: 'Local number without a country. Add the country or a +code.',
+  };
+};
+
+// E.164 without the '+', as wa.me and whatsapp:// expect
+export const whatsappDigits = (check: PhoneCheck): string => {
+  return (check.e164 || '').replace('+', '');
+};
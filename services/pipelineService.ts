@@ -0,0 +1,31 @@
+import { LeadStatus, SavedItem } from "../types";
+
+export const LEAD_STATUSES: { id: LeadStatus; label: string; badge: string }[] = [
+  { id: 'saved', label: 'Saved', badge: 'bg-gray-100 text-gray-800' },
+  { id: 'sent', label: 'Sent', badge: 'bg-blue-100 text-blue-800' },
+  { id: 'replied', label: 'Replied', badge: 'bg-purple-100 text-purple-800' },
+  { id: 'quoted', label: 'Quotation', badge: 'bg-amber-100 text-amber-800' },
+  { id: 'ordered', label: 'Order', badge: 'bg-green-100 text-green-800' },
+  { id: 'cold', label: 'Cold', badge: 'bg-slate-200 text-slate-600' },
+];
+
+// Once a lead answers or is written off, the follow-up sequence stops
+const CLOSED_STATUSES: LeadStatus[] = ['replied', 'quoted', 'ordered', 'cold'];
+
+export const statusOf = (item: SavedItem): LeadStatus => item.status || 'saved';
+
+export const statusInfo = (status: LeadStatus) => LEAD_STATUSES.find(s => s.id === status) || LEAD_STATUSES[0];
+
+export const isFollowUpClosed = (item: SavedItem): boolean => CLOSED_STATUSES.includes(statusOf(item));
+
+export const changeStatus = (item: SavedItem, status: LeadStatus, note: string = ''): SavedItem => ({
+  ...item,
+  status,
+  statusHistory: [...(item.statusHistory || []), { status, changedAt: Date.now(), note: note.trim() }],
+});
+
+export const countByStatus = (items: SavedItem[]): Record<LeadStatus, number> => {
+  const counts = Object.fromEntries(LEAD_STATUSES.map(s => [s.id, 0])) as Record<LeadStatus, number>;
+  items.forEach(item => { counts[statusOf(item)]++; });
+  return counts;
+};
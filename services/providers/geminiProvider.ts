@@ -0,0 +1,56 @@
+import { GoogleGenAI, Type, Schema } from "@google/genai";
+import { LLMSettings } from "../../types";
+import { JsonSchema, LLMProvider, LLMRequest } from "../llmProvider";
+import { LLMError } from "../llmError";
+
+const TYPE_MAP: Record<JsonSchema['type'], Type> = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  boolean: Type.BOOLEAN,
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: TYPE_MAP[schema.type],
+  description: schema.description,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  required: schema.required,
+});
+
+export const createGeminiProvider = (settings: LLMSettings): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+  const model = settings.model || 'gemini-2.5-flash';
+
+  const generateJSON = async (request: LLMRequest): Promise<string> => {
+    const parts = [];
+    if (request.attachment) {
+      parts.push({ inlineData: { mimeType: request.attachment.mimeType, data: request.attachment.data } });
+    }
+    parts.push({ text: request.prompt });
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: { parts },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: toGeminiSchema(request.schema),
+        systemInstruction: request.systemInstruction,
+        temperature: request.temperature,
+      },
+    });
+
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+      throw new LLMError('safety', `${blockReason || finishReason}`);
+    }
+
+    return response.text || '';
+  };
+
+  return { id: 'gemini', generateJSON };
+};
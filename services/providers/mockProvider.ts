@@ -0,0 +1,98 @@
+import { LLMProvider, LLMRequest } from "../llmProvider";
+
+// Sample booth visitors returned for every extraction so the flow can be demoed offline
+const EXTRACTION_FIXTURE = [
+  {
+    company: "Gulf Building Materials LLC",
+    representative: "Ahmad Ghazzoul",
+    phone: "+971 50 123 4567",
+    country: "Dubai, UAE",
+    email: "ahmad.ghazzoul@gulfbm.ae",
+    website: "www.gulfbm.ae",
+    notes: "Interested in MDF kit and silicone sealants, wants price list",
+  },
+  {
+    company: "Nile Construction Supplies",
+    representative: "Mohamed Hassan",
+    phone: "+20 100 555 1234",
+    country: "Cairo, Egypt",
+    email: "m.hassan@nilecs.com.eg",
+    website: "nilecs.com.eg",
+    notes: "Distributor, asked for polyurethane foam samples",
+    confidence: { representative: 0.55, phone: 0.6 },
+  },
+  {
+    company: "Andes Ferretería S.A.",
+    representative: "",
+    phone: "+56 9 8765 4321",
+    country: "Santiago, Chile",
+    email: "compras@andesferreteria.cl",
+    website: "",
+    notes: "Looking for an exclusive agent agreement for tile adhesives",
+  },
+];
+
+const fill = (template: string, fields: Record<string, string>) => {
+  return template.replace(/\{\{(\w+)\}\}/g, (_, key) => fields[key] || '');
+};
+
+const buildDraft = (fields: Record<string, string>) => {
+  const name = fields.representative || 'there';
+  const arabic = fields.language === 'ar';
+
+  if (arabic) {
+    return {
+      emailSubject: fill("بخصوص استفساركم - {{exhibitionName}}", fields),
+      emailBody: fill("السيد الأستاذ/ {{representative}}\n\nسعدنا بلقائكم في معرض {{exhibitionName}} في {{exhibitionLocation}}.\nبخصوص: {{notes}}\n\nمع خالص التحية،\n{{signature}}", fields),
+      whatsappBody: fill("السلام عليكم\nيا رب حضرتك تكون بخير\nمع حضرتك {{senderName}} من شركة {{senderCompany}}\nحضرتك شرفتنا في معرض {{exhibitionName}}", fields),
+    };
+  }
+
+  return {
+    emailSubject: fill("Following up from {{exhibitionName}} - {{company}}", fields),
+    emailBody: fill(`Dear ${name},\n\nIt was great meeting you at {{exhibitionName}} in {{exhibitionLocation}}.\nAs discussed: {{notes}}\n\nBest regards,\n{{signature}}`, fields),
+    whatsappBody: fill(`Hello ${name}\nHow is everything going?\nThis is {{senderName}} from {{senderCompany}}\nWe met at the {{exhibitionName}}`, fields),
+  };
+};
+
+const buildFollowUp = (fields: Record<string, string>) => {
+  const name = fields.representative || 'there';
+  return {
+    emailSubject: fill("Following up: {{purpose}} - {{company}}", fields),
+    emailBody: fill(`Dear ${name},\n\nFollowing up on my earlier message from {{exhibitionName}} (day {{dayOffset}}).\n{{purpose}}\n\nBest regards,\n{{signature}}`, fields),
+    whatsappBody: fill(`Hello ${name}\nJust following up after {{exhibitionName}}\n{{purpose}}`, fields),
+  };
+};
+
+const buildReply = (fields: Record<string, string>) => {
+  const name = fields.representative || 'there';
+  return {
+    emailBody: fill(`Dear ${name},\n\nThank you for your reply:\n> {{lastReply}}\n\nWe will get back to you shortly with the details you asked for.\n\nBest regards,\n{{signature}}`, fields),
+    whatsappBody: `Hello ${name}\nThank you for your message\nWe will send you the details shortly`,
+  };
+};
+
+// Deterministic provider: the same request always yields the same response, with no network access
+export const createMockProvider = (): LLMProvider => {
+  const generateJSON = async (request: LLMRequest): Promise<string> => {
+    const fields = request.fields || {};
+    switch (request.task) {
+      case 'extractImage':
+        // Stacked row boxes so the source review has something to highlight
+        return JSON.stringify(EXTRACTION_FIXTURE.map((row, i) => ({ ...row, box: [100 + i * 250, 40, 320 + i * 250, 960] })));
+      case 'extractDocument':
+      case 'extractText':
+        return JSON.stringify(EXTRACTION_FIXTURE);
+      case 'generateDraft':
+        return JSON.stringify(buildDraft(fields));
+      case 'generateFollowUp':
+        return JSON.stringify(buildFollowUp(fields));
+      case 'generateReply':
+        return JSON.stringify(buildReply(fields));
+      default:
+        return '{}';
+    }
+  };
+
+  return { id: 'mock', generateJSON };
+};
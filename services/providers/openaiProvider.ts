@@ -0,0 +1,74 @@
+import { LLMSettings } from "../../types";
+import { LLMProvider, LLMRequest } from "../llmProvider";
+import { LLMError } from "../llmError";
+
+// Key used to wrap top-level arrays, since JSON mode only allows an object at the root
+const ARRAY_WRAPPER_KEY = 'items';
+
+// Works with any endpoint implementing POST /chat/completions (OpenAI, Ollama, llama.cpp, LM Studio)
+export const createOpenAIProvider = (settings: LLMSettings): LLMProvider => {
+  const baseUrl = (settings.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+
+  const generateJSON = async (request: LLMRequest): Promise<string> => {
+    const wrapsArray = request.schema.type === 'array';
+    const schema = wrapsArray
+      ? { type: 'object', properties: { [ARRAY_WRAPPER_KEY]: request.schema }, required: [ARRAY_WRAPPER_KEY] }
+      : request.schema;
+
+    const system = [
+      request.systemInstruction || '',
+      `Respond only with JSON matching this schema:\n${JSON.stringify(schema)}`,
+    ].filter(Boolean).join('\n\n');
+
+    const attachment = request.attachment;
+    const dataUrl = attachment && `data:${attachment.mimeType};base64,${attachment.data}`;
+    // PDFs go in a file part (OpenAI); servers without document support reject them with a 4xx
+    const userContent = attachment
+      ? [
+          { type: 'text', text: request.prompt },
+          attachment.mimeType === 'application/pdf'
+            ? { type: 'file', file: { filename: 'document.pdf', file_data: dataUrl } }
+            : { type: 'image_url', image_url: { url: dataUrl } },
+        ]
+      : request.prompt;
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      headers['Authorization'] = `Bearer ${settings.apiKey}`;
+    }
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: userContent },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: request.temperature,
+      }),
+    });
+
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(`OpenAI-compatible endpoint returned ${response.status}: ${await response.text()}`),
+        { status: response.status }
+      );
+    }
+
+    const data = await response.json();
+    if (data.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new LLMError('safety', 'finish_reason: content_filter');
+    }
+    const content: string = data.choices?.[0]?.message?.content || '';
+    if (!wrapsArray || !content) return content;
+
+    // Unwrap so callers see the same shape as the other providers
+    const parsed = JSON.parse(content);
+    return JSON.stringify(Array.isArray(parsed) ? parsed : parsed[ARRAY_WRAPPER_KEY] || []);
+  };
+
+  return { id: 'openai', generateJSON };
+};
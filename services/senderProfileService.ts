@@ -0,0 +1,42 @@
+import { SenderProfile } from "../types";
+
+export const DEFAULT_SENDER_PROFILE: SenderProfile = {
+  id: 'sender-default',
+  name: 'Ahmed Seref',
+  nameArabic: 'أحمد شرف',
+  title: 'Export Executive',
+  phone: '',
+  email: '',
+  signature: '',
+};
+
+export const createSenderProfile = (): SenderProfile => ({
+  id: `sender-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  name: '',
+  nameArabic: '',
+  title: 'Export Executive',
+  phone: '',
+  email: '',
+  signature: '',
+});
+
+export const resolveSenderProfile = (profiles: SenderProfile[], activeId: string): SenderProfile => {
+  return profiles.find(p => p.id === activeId) || profiles[0] || DEFAULT_SENDER_PROFILE;
+};
+
+// Name to use in Arabic drafts; falls back to the Latin name when no Arabic spelling is set
+export const arabicSenderName = (profile: SenderProfile): string => {
+  return profile.nameArabic || profile.name;
+};
+
+// Email sign-off block: the custom signature if set, otherwise name, title and contact lines
+export const buildSignature = (profile: SenderProfile, senderCompany: string): string => {
+  if (profile.signature.trim()) return profile.signature.trim();
+
+  return [
+    profile.name,
+    [profile.title, senderCompany].filter(Boolean).join(', '),
+    profile.phone,
+    profile.email,
+  ].filter(Boolean).join('\n');
+};
@@ -0,0 +1,114 @@
+import { Campaign, Customer, FollowUpState, GeneratedMessage, SavedItem, SequenceStep, TemplateChannel } from "../types";
+import { isFollowUpClosed } from "./pipelineService";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SEQUENCE: SequenceStep[] = [
+  { id: 'step-thanks', dayOffset: 0, channel: 'email', purpose: 'Thank-you email after meeting at the fair' },
+  { id: 'step-nudge', dayOffset: 3, channel: 'whatsapp', purpose: 'Short WhatsApp nudge: check they received our email and offer help' },
+  { id: 'step-pricelist', dayOffset: 10, channel: 'email', purpose: 'Price-list reminder: offer the catalogue and prices for the products they asked about' },
+  { id: 'step-last', dayOffset: 30, channel: 'email', purpose: 'Last touch: polite final check-in, leave the door open for future orders' },
+];
+
+export interface DueFollowUp {
+  item: SavedItem;
+  step: SequenceStep;
+  stepNumber: number; // 1-based position in the sequence
+  dueAt: number;
+  overdueDays: number;
+}
+
+// An earlier touch, passed to the LLM so the next one builds on it
+export interface FollowUpHistoryEntry {
+  dayOffset: number;
+  channel: TemplateChannel;
+  subject: string;
+  body: string;
+}
+
+export const createSequenceStep = (dayOffset: number, channel: TemplateChannel = 'email'): SequenceStep => ({
+  id: `step-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  dayOffset,
+  channel,
+  purpose: '',
+});
+
+// Campaigns created before sequences existed follow the default cadence
+export const resolveSequence = (campaign: Campaign): SequenceStep[] => {
+  return campaign.sequence && campaign.sequence.length > 0 ? campaign.sequence : DEFAULT_SEQUENCE;
+};
+
+// Keeps steps in day order; the first step stays the day-0 initial message
+export const sortSequence = (steps: SequenceStep[]): SequenceStep[] => {
+  const [first, ...rest] = steps;
+  return first ? [{ ...first, dayOffset: 0 }, ...[...rest].sort((a, b) => a.dayOffset - b.dayOffset)] : [];
+};
+
+const startOfDay = (timestamp: number): number => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Saved leads still in play whose next open step falls on or before today, most overdue first
+export const findDueFollowUps = (campaign: Campaign, now: number = Date.now()): DueFollowUp[] => {
+  const sequence = resolveSequence(campaign);
+  const today = startOfDay(now);
+  const due: DueFollowUp[] = [];
+
+  campaign.savedItems.forEach(item => {
+    if (isFollowUpClosed(item)) return;
+    const state = campaign.followUps?.[item.customer.id] || {};
+    // Items archived before savedAt was recorded count from the campaign's creation
+    const startedAt = startOfDay(item.savedAt ?? campaign.createdAt);
+    const index = sequence.findIndex((step, i) => i > 0 && !state[step.id]?.doneAt && !state[step.id]?.skipped);
+    if (index === -1) return;
+
+    const step = sequence[index];
+    const dueAt = startedAt + step.dayOffset * DAY_MS;
+    if (dueAt > today) return;
+
+    due.push({ item, step, stepNumber: index + 1, dueAt, overdueDays: Math.round((today - dueAt) / DAY_MS) });
+  });
+
+  return due.sort((a, b) => a.dueAt - b.dueAt);
+};
+
+// The initial message plus every follow-up sent so far, oldest first
+export const followUpHistory = (item: SavedItem, sequence: SequenceStep[], state: FollowUpState = {}): FollowUpHistoryEntry[] => {
+  const toEntry = (step: SequenceStep, message: GeneratedMessage): FollowUpHistoryEntry => ({
+    dayOffset: step.dayOffset,
+    channel: step.channel,
+    subject: step.channel === 'email' ? message.subject : '',
+    body: step.channel === 'whatsapp' ? message.whatsappBody || message.body : message.body,
+  });
+
+  const [first, ...rest] = sequence;
+  const history = first ? [toEntry(first, item.message)] : [];
+  rest.forEach(step => {
+    const progress = state[step.id];
+    if (progress?.doneAt && progress.message) history.push(toEntry(step, progress.message));
+  });
+  return history;
+};
+
+export const updateFollowUpStep = (
+  campaign: Campaign,
+  customer: Customer,
+  stepId: string,
+  changes: FollowUpState[string]
+): Campaign => {
+  const followUps = campaign.followUps || {};
+  const state = followUps[customer.id] || {};
+  return {
+    ...campaign,
+    followUps: {
+      ...followUps,
+      [customer.id]: { ...state, [stepId]: { ...state[stepId], ...changes } },
+    },
+  };
+};
+
+export const formatStepLabel = (step: SequenceStep): string => {
+  return `Day ${step.dayOffset} · ${step.channel === 'email' ? 'Email' : 'WhatsApp'}`;
+};
@@ -0,0 +1,68 @@
+import { Customer, GeneratedMessage, SendLogEntry, SenderProfile, SmtpSettings } from "../types";
+import { headerAddress, toEml } from "./emlService";
+
+// A local MailHog (web UI on :8025) catches everything, so drafts can be tried without reaching customers
+export const DEFAULT_SMTP_SETTINGS: SmtpSettings = {
+  host: 'localhost',
+  port: 1025,
+  security: 'none',
+  username: '',
+  password: '',
+  throttleSeconds: 5,
+};
+
+const RELAY_URL = '/api/smtp';
+
+const postRelay = async (action: 'send' | 'verify', payload: object): Promise<string> => {
+  let response: Response;
+  try {
+    response = await fetch(`${RELAY_URL}/${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+  } catch {
+    throw new Error('The SMTP relay is not reachable. Sending only works while the app runs with "npm run dev" or "npm run preview".');
+  }
+  const result = await response.json().catch(() => ({ error: `SMTP relay answered ${response.status}.` }));
+  if (!response.ok) throw new Error(result.error || `SMTP relay answered ${response.status}.`);
+  return result.response;
+};
+
+export const verifySmtp = (settings: SmtpSettings): Promise<string> => postRelay('verify', { settings });
+
+// Sends one draft and returns its log entry; failures are logged rather than thrown
+export const sendEmail = async (
+  customer: Customer,
+  message: GeneratedMessage,
+  sender: SenderProfile,
+  settings: SmtpSettings
+): Promise<SendLogEntry> => {
+  const from = headerAddress(sender.email || (settings.username.includes('@') ? settings.username : ''));
+  const to = headerAddress(customer.email);
+  const raw = toEml({ customer, message }, { ...sender, email: from }, new Date(), false);
+  const entry: SendLogEntry = {
+    sentAt: Date.now(),
+    messageId: raw.match(/^Message-ID: (<[^>\r\n]+>)/m)?.[1] || '',
+    to: customer.email,
+    subject: message.subject,
+    result: 'sent',
+    response: '',
+  };
+
+  try {
+    if (!from) throw new Error('Set a valid email address on the sender profile before sending.');
+    if (!to) throw new Error(`"${customer.email}" is not a valid email address.`);
+    entry.response = await postRelay('send', { settings, envelope: { from, to: [to], raw } });
+  } catch (error) {
+    console.error("SMTP send error:", error);
+    entry.result = 'failed';
+    entry.response = error instanceof Error ? error.message : String(error);
+  }
+  return entry;
+};
+
+export const lastSend = (log?: SendLogEntry[]): SendLogEntry | undefined => log?.[log.length - 1];
+
+// Leads with at least one accepted message; used to ask before sending the same lead twice
+export const wasSent = (log?: SendLogEntry[]): boolean => !!log?.some(entry => entry.result === 'sent');
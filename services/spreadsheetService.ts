@@ -0,0 +1,141 @@
+import * as XLSX from 'xlsx';
+import { ColumnMapping, Customer } from "../types";
+
+// One sheet of one uploaded file, kept as raw rows until the header row is chosen
+export interface SheetSource {
+  id: string;
+  fileName: string;
+  sheetName: string;
+  rows: any[][];
+  headerRow: number;
+  selected: boolean;
+  mapping: ColumnMapping; // Per sheet, since files rarely agree on header names ("E-mail" vs "Email")
+}
+
+// How many rows from the top are scanned for the header, and offered in the manual picker
+export const HEADER_SCAN_ROWS = 15;
+
+const HEADER_KEYWORDS: Record<keyof ColumnMapping, string[]> = {
+  company: ['firm', 'company', 'name', 'business'],
+  representative: ['rep', 'contact', 'person', 'mr', 'mrs', 'name', 'temsilci', 'yetkili'],
+  phone: ['tel', 'phone', 'mobile', 'cel'],
+  email: ['mail', 'e-mail', 'e-posta'],
+  country: ['country', 'address', 'city', 'location', 'adres', 'ülke'],
+  website: ['web', 'site', 'url'],
+  notes: ['note', 'desc', 'comment', 'product', 'interest', 'açıklama'],
+};
+
+export const EMPTY_MAPPING: ColumnMapping = {
+  company: '',
+  representative: '',
+  phone: '',
+  email: '',
+  country: '',
+  website: '',
+  notes: ''
+};
+
+const TEXT_EXTENSIONS = ['csv', 'tsv', 'txt'];
+
+export const readSpreadsheetFile = async (file: File): Promise<SheetSource[]> => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || '';
+
+  // Text formats are decoded as UTF-8 ourselves so Turkish/Arabic characters survive
+  const workbook = TEXT_EXTENSIONS.includes(extension)
+    ? XLSX.read(await file.text(), { type: 'string', FS: extension === 'tsv' ? '\t' : undefined })
+    : XLSX.read(await file.arrayBuffer());
+
+  return workbook.SheetNames.map((sheetName, index) => {
+    const rows = XLSX.utils.sheet_to_json<any[]>(workbook.Sheets[sheetName], { header: 1, blankrows: false, defval: '' });
+    const headerRow = detectHeaderRow(rows);
+    return {
+      id: `${file.name}-${index}-${Date.now()}`,
+      fileName: file.name,
+      sheetName,
+      rows,
+      headerRow,
+      selected: rows.length > 0,
+      mapping: autoMapColumns((rows[headerRow] || []).map(cellText)),
+    };
+  });
+};
+
+const cellText = (value: any) => (value ?? '').toString().trim();
+
+// Picks the row that looks most like a header: the most cells matching known column keywords,
+// ties broken by the number of filled text cells. Title banners above the table score low.
+export const detectHeaderRow = (rows: any[][]): number => {
+  let bestIndex = 0;
+  let bestScore = -1;
+
+  rows.slice(0, HEADER_SCAN_ROWS).forEach((row, index) => {
+    const cells = row.map(cellText).filter(Boolean);
+    if (cells.length < 2) return;
+
+    const keywordHits = cells.filter(cell => {
+      const lower = cell.toLowerCase();
+      return Object.values(HEADER_KEYWORDS).some(keywords => keywords.some(k => lower.includes(k)));
+    }).length;
+    const textCells = cells.filter(cell => isNaN(Number(cell))).length;
+    const score = keywordHits * 10 + textCells;
+
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  });
+
+  return bestIndex;
+};
+
+export const getHeaders = (source: SheetSource): string[] => {
+  return (source.rows[source.headerRow] || []).map(cellText);
+};
+
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const lowerHeaders = headers.map(h => h.toString().toLowerCase());
+
+  const findMatch = (keywords: string[]) => {
+    const index = lowerHeaders.findIndex(h => keywords.some(k => h.includes(k)));
+    return index !== -1 ? headers[index] : '';
+  };
+
+  const mapping = { ...EMPTY_MAPPING };
+  (Object.keys(HEADER_KEYWORDS) as (keyof ColumnMapping)[]).forEach(field => {
+    mapping[field] = findMatch(HEADER_KEYWORDS[field]);
+  });
+  return mapping;
+};
+
+export const rowsToCustomers = (headers: string[], rows: any[][], mapping: ColumnMapping, idPrefix: string): Customer[] => {
+  const customers: Customer[] = rows.map((row, index) => {
+    // Helper to get value safely based on mapped header index
+    const getVal = (headerName: string) => {
+      if (!headerName) return "";
+      const colIndex = headers.indexOf(headerName);
+      if (colIndex === -1) return "";
+      return cellText(row[colIndex]);
+    };
+
+    return {
+      id: `${idPrefix}-${Date.now()}-${index}`,
+      company: getVal(mapping.company),
+      representative: getVal(mapping.representative),
+      phone: getVal(mapping.phone),
+      email: getVal(mapping.email),
+      country: getVal(mapping.country),
+      website: getVal(mapping.website),
+      notes: getVal(mapping.notes)
+    };
+  });
+
+  // Filter out completely empty rows
+  return customers.filter(c => c.company || c.phone || c.email);
+};
+
+// Rows below each sheet's header, mapped with that sheet's own mapping and concatenated in source order
+export const sourcesToCustomers = (sources: SheetSource[]): Customer[] => {
+  return sources.flatMap((source, sourceIndex) =>
+    rowsToCustomers(getHeaders(source), source.rows.slice(source.headerRow + 1), source.mapping, `cust-xls-${sourceIndex}`)
+  );
+};
@@ -0,0 +1,200 @@
+import { AppSettings, WorkspaceSnapshot } from "../types";
+import { DEFAULT_LLM_SETTINGS } from "./llmProvider";
+import { DEFAULT_SENDER_PROFILE } from "./senderProfileService";
+import { DEFAULT_SMTP_SETTINGS } from "./smtpService";
+import { DEFAULT_TEMPLATES } from "./templateService";
+
+const DB_NAME = 'akfix-outreach';
+const DB_VERSION = 1;
+const STORE_NAME = 'workspace';
+const WORKSPACE_KEY = 'current';
+const SETTINGS_KEY = 'settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  llm: DEFAULT_LLM_SETTINGS,
+  smtp: DEFAULT_SMTP_SETTINGS,
+  senderProfiles: [DEFAULT_SENDER_PROFILE],
+  activeSenderProfileId: DEFAULT_SENDER_PROFILE.id,
+  templates: DEFAULT_TEMPLATES,
+};
+
+// Version of the snapshot shape stored in IndexedDB (independent of DB_VERSION,
+// which only changes when object stores are added or removed).
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// Stored snapshots are read back as plain objects of unknown shape and narrowed field by field
+type StoredData = Record<string, unknown>;
+
+interface MigratedData extends StoredData {
+  schemaVersion: number;
+}
+
+const isRecord = (value: unknown): value is StoredData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Each entry upgrades a snapshot from version N to N + 1 and must set schemaVersion.
+const migrations: Record<number, (data: StoredData) => MigratedData> = {
+  // v1 held a single global context; wrap it into one campaign
+  1: (data) => {
+    const savedAt = typeof data.savedAt === 'number' ? data.savedAt : Date.now();
+    const exhibitionName = isRecord(data.context) ? data.context.exhibitionName : undefined;
+    const campaign = {
+      id: `camp-${savedAt}`,
+      name: typeof exhibitionName === 'string' && exhibitionName ? exhibitionName : 'My Campaign',
+      context: data.context,
+      customers: Array.isArray(data.customers) ? data.customers : [],
+      generatedMessages: isRecord(data.generatedMessages) ? data.generatedMessages : {},
+      savedItems: Array.isArray(data.savedItems) ? data.savedItems : [],
+      archived: false,
+      createdAt: savedAt,
+    };
+    return {
+      schemaVersion: 2,
+      savedAt: data.savedAt,
+      campaigns: [campaign],
+      activeCampaignId: campaign.id,
+    };
+  },
+  // v2 stored a placeholder draft when generation failed; drop those so the card offers a retry instead
+  2: (data) => ({
+    ...data,
+    schemaVersion: 3,
+    campaigns: (Array.isArray(data.campaigns) ? data.campaigns : []).filter(isRecord).map(c => ({
+      ...c,
+      generatedMessages: Object.fromEntries(
+        Object.entries(isRecord(c.generatedMessages) ? c.generatedMessages : {})
+          .filter(([, m]) => !(isRecord(m) && m.body === 'Error generating draft.'))
+      ),
+    })),
+  }),
+};
+
+export const migrateWorkspace = (raw: unknown): WorkspaceSnapshot => {
+  if (!isRecord(raw)) {
+    throw new Error('Saved workspace is not a readable snapshot.');
+  }
+  let data: StoredData = { ...raw };
+  let version = typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Saved workspace uses a newer schema (v${version}). Please update the app.`);
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration path from workspace schema v${version}.`);
+    }
+    const migrated = migrate(data);
+    data = migrated;
+    version = migrated.schemaVersion;
+  }
+
+  if (!Array.isArray(data.campaigns) || typeof data.activeCampaignId !== 'string') {
+    throw new Error('Saved workspace has no campaign list.');
+  }
+  return data as unknown as WorkspaceSnapshot;
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Runs a single request against the workspace store and closes the connection afterwards
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = run(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// null means nothing was saved. A workspace that can't be read or migrated throws instead,
+// so the caller can keep autosave from overwriting it.
+export const loadWorkspace = async (): Promise<WorkspaceSnapshot | null> => {
+  const raw = await withStore('readonly', store => store.get(WORKSPACE_KEY));
+  if (!raw) return null;
+  return migrateWorkspace(raw);
+};
+
+export const saveWorkspace = async (snapshot: Omit<WorkspaceSnapshot, 'schemaVersion' | 'savedAt'>): Promise<void> => {
+  const record: WorkspaceSnapshot = {
+    ...snapshot,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    savedAt: Date.now(),
+  };
+  try {
+    await withStore('readwrite', store => store.put(record, WORKSPACE_KEY));
+  } catch (error) {
+    console.error("Workspace save error:", error);
+  }
+};
+
+export const clearWorkspace = async (): Promise<void> => {
+  try {
+    await withStore('readwrite', store => store.delete(WORKSPACE_KEY));
+  } catch (error) {
+    console.error("Workspace clear error:", error);
+  }
+};
+
+// True when the snapshot holds anything worth offering to restore
+export const hasWorkspaceContent = (snapshot: WorkspaceSnapshot): boolean => {
+  return snapshot.campaigns.some(c =>
+    c.customers.length > 0
+    || c.savedItems.length > 0
+    || Object.keys(c.generatedMessages).length > 0
+  );
+};
+
+// Settings are merged over the defaults so newly added options get sensible values
+export const loadSettings = async (): Promise<AppSettings> => {
+  try {
+    const raw = await withStore<Partial<AppSettings> | undefined>('readonly', store => store.get(SETTINGS_KEY));
+    return {
+      ...DEFAULT_SETTINGS,
+      ...raw,
+      llm: { ...DEFAULT_SETTINGS.llm, ...raw?.llm },
+      smtp: { ...DEFAULT_SETTINGS.smtp, ...raw?.smtp },
+      senderProfiles: raw?.senderProfiles?.length ? raw.senderProfiles : DEFAULT_SETTINGS.senderProfiles,
+      templates: raw?.templates ?? DEFAULT_SETTINGS.templates,
+    };
+  } catch (error) {
+    console.error("Settings load error:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = async (settings: AppSettings): Promise<void> => {
+  try {
+    await withStore('readwrite', store => store.put(settings, SETTINGS_KEY));
+  } catch (error) {
+    console.error("Settings save error:", error);
+  }
+};
@@ -0,0 +1,172 @@
+import { Customer, DraftLanguage, GeneratedMessage, GenerationContext, MessageTemplate, SenderProfile, TemplateChannel, TemplateSelection } from "../types";
+import { arabicSenderName, buildSignature } from "./senderProfileService";
+import { nameFromEmail } from "./validationService";
+import { getLanguage } from "./languageService";
+
+export const PLACEHOLDERS: { key: string; description: string }[] = [
+  { key: 'firstName', description: "Contact's first name, taken from the email if the name is missing" },
+  { key: 'representative', description: "Contact's full name" },
+  { key: 'company', description: 'Lead company' },
+  { key: 'country', description: 'Lead country or address' },
+  { key: 'product', description: 'First product mentioned in the notes' },
+  { key: 'notes', description: 'Notes from the fair' },
+  { key: 'exhibitionName', description: 'Exhibition name' },
+  { key: 'exhibitionLocation', description: 'Exhibition location' },
+  { key: 'senderName', description: 'Your name (Arabic spelling in Arabic templates)' },
+  { key: 'senderTitle', description: 'Your title' },
+  { key: 'senderCompany', description: 'Your company' },
+  { key: 'signature', description: 'Your email signature block' },
+];
+
+// Product names looked up in the notes for {{product}}, most specific first
+const PRODUCT_KEYWORDS = [
+  'MDF kit', 'polyurethane foam', 'PU foam', 'silicone sealant', 'silicone', 'sealant', 'tile adhesive',
+  'wood glue', 'PVC glue', 'contact adhesive', 'cyanoacrylate', 'super glue', 'spray paint', 'epoxy',
+  'waterproofing', 'mounting adhesive', 'adhesive', 'foam', 'glue',
+];
+
+// Honorifics dropped before taking the first name
+const TITLES = /^(mr|mrs|ms|dr|eng|prof|sheikh|sayın)\.?$/i;
+
+export const DEFAULT_TEMPLATES: MessageTemplate[] = [
+  {
+    id: 'tpl-email-en',
+    name: 'Fair follow-up',
+    channel: 'email',
+    language: 'en',
+    subject: 'Your interest in {{product}} - {{exhibitionName}}',
+    body: 'Dear {{firstName|Sir/Madam}},\n\nIt was a pleasure meeting you at {{exhibitionName}} in {{exhibitionLocation}}.\n\nAs promised, I am following up on your interest in {{product}}. I would be glad to send you our catalogue and price list.\n\nBest regards,\n{{signature}}',
+  },
+  {
+    id: 'tpl-whatsapp-en',
+    name: 'Fair follow-up',
+    channel: 'whatsapp',
+    language: 'en',
+    subject: '',
+    body: 'Hello {{firstName|there}}\nHow is everything going?\nThis is {{senderName}} from {{senderCompany}}\nWe met at the {{exhibitionName}}\nYou asked about {{product}}, shall I send you the details?',
+  },
+  {
+    id: 'tpl-email-ar',
+    name: 'متابعة المعرض',
+    channel: 'email',
+    language: 'ar',
+    subject: 'بخصوص استفساركم عن {{product}} - {{exhibitionName}}',
+    body: 'السيد الأستاذ/ {{firstName}}\n\nسعدنا بلقائكم في معرض {{exhibitionName}} في {{exhibitionLocation}}.\nبخصوص اهتمامكم بـ {{product}}، يسعدنا إرسال الكتالوج وقائمة الأسعار.\n\nمع خالص التحية،\n{{signature}}',
+  },
+  {
+    id: 'tpl-whatsapp-ar',
+    name: 'متابعة المعرض',
+    channel: 'whatsapp',
+    language: 'ar',
+    subject: '',
+    body: 'السلام عليكم\nأخبار حضرتك إيه يا أستاذ {{firstName|يا فندم}}\nمع حضرتك {{senderName}} من شركة {{senderCompany}}\nحضرتك شرفتنا في معرض {{exhibitionName}}\nبخصوص اهتمام حضرتك بـ {{product}}',
+  },
+];
+
+export const DEFAULT_TEMPLATE_SELECTION: TemplateSelection = { mode: 'style', templateIds: {} };
+
+export const createTemplate = (channel: TemplateChannel = 'email', language: DraftLanguage = 'en'): MessageTemplate => ({
+  id: `tpl-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  name: 'New template',
+  channel,
+  language,
+  subject: '',
+  body: '',
+});
+
+export const firstNameOf = (customer: Customer): string => {
+  const words = customer.representative.trim().split(/\s+/).filter(w => w && !TITLES.test(w));
+  if (words.length > 0) return words[0];
+  const fromEmail = customer.email ? nameFromEmail(customer.email) : null;
+  return fromEmail ? fromEmail.split(' ')[0] : '';
+};
+
+// Given and family name for address books and CRMs: titles are dropped, everything after the first name is the family name
+export const nameParts = (representative: string): { given: string; family: string } => {
+  const [given = '', ...rest] = representative.trim().split(/\s+/).filter(w => w && !TITLES.test(w));
+  return { given, family: rest.join(' ') };
+};
+
+export const productFromNotes = (notes: string): string => {
+  const lower = notes.toLowerCase();
+  return PRODUCT_KEYWORDS.find(keyword => lower.includes(keyword.toLowerCase())) || '';
+};
+
+export const placeholderValues = (
+  customer: Customer,
+  context: GenerationContext,
+  sender: SenderProfile,
+  language: DraftLanguage
+): Record<string, string> => ({
+  firstName: firstNameOf(customer),
+  representative: customer.representative,
+  company: customer.company,
+  country: customer.country,
+  product: productFromNotes(customer.notes) || getLanguage(language).genericProduct,
+  notes: customer.notes,
+  exhibitionName: context.exhibitionName,
+  exhibitionLocation: context.exhibitionLocation,
+  senderName: language === 'ar' ? arabicSenderName(sender) : sender.name,
+  senderTitle: sender.title,
+  senderCompany: context.senderCompany,
+  signature: buildSignature(sender, context.senderCompany),
+});
+
+// Replaces {{key}} and {{key|fallback}}; unknown or empty keys use the fallback, or nothing
+export const fillTemplate = (text: string, values: Record<string, string>): string => {
+  return text.replace(/\{\{\s*(\w+)\s*(?:\|([^}]*))?\}\}/g, (_, key: string, fallback?: string) => {
+    return values[key] || (fallback ?? '').trim();
+  });
+};
+
+// Customer choice wins over the campaign's; either may be missing
+export const resolveTemplateSelection = (
+  campaignSelection: TemplateSelection | undefined,
+  customerSelection: TemplateSelection | undefined
+): TemplateSelection => {
+  return customerSelection || campaignSelection || DEFAULT_TEMPLATE_SELECTION;
+};
+
+export const templateForSlot = (
+  library: MessageTemplate[],
+  selection: TemplateSelection,
+  channel: TemplateChannel,
+  language: DraftLanguage
+): MessageTemplate | undefined => {
+  const id = selection.templateIds[`${channel}:${language}`];
+  return id ? library.find(t => t.id === id) : undefined;
+};
+
+// The templates a draft is written from
+export interface TemplatePlan {
+  mode: TemplateSelection['mode'];
+  email?: MessageTemplate;
+  whatsapp?: MessageTemplate;
+}
+
+export const planTemplates = (
+  library: MessageTemplate[],
+  selection: TemplateSelection,
+  language: DraftLanguage
+): TemplatePlan => ({
+  mode: selection.mode,
+  email: templateForSlot(library, selection, 'email', language),
+  whatsapp: templateForSlot(library, selection, 'whatsapp', language),
+});
+
+// Filling needs both templates; otherwise the LLM writes both channels, styled by the one selected.
+// TemplatePicker points this out next to the selection.
+export const canFillLocally = (plan: TemplatePlan): boolean => {
+  return plan.mode === 'fill' && !!plan.email && !!plan.whatsapp;
+};
+
+export const renderTemplates = (
+  email: MessageTemplate,
+  whatsapp: MessageTemplate,
+  values: Record<string, string>
+): GeneratedMessage => ({
+  subject: fillTemplate(email.subject, values),
+  body: fillTemplate(email.body, values),
+  whatsappBody: fillTemplate(whatsapp.body, values),
+  type: 'email',
+});
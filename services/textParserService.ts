@@ -0,0 +1,112 @@
+import { Customer } from "../types";
+import { autoMapColumns, detectHeaderRow, rowsToCustomers } from "./spreadsheetService";
+
+export interface LocalParseResult {
+  customers: Customer[];
+  delimiter: string;
+  headers: string[];
+}
+
+const DELIMITERS = ['\t', ';', ',', '|'];
+
+// Share of data rows that must have as many columns as the header for the paste to count as a table
+const MIN_CONSISTENT_ROWS = 0.8;
+
+export const DELIMITER_LABELS: Record<string, string> = {
+  '\t': 'tab-separated',
+  ';': 'semicolon-separated',
+  ',': 'comma-separated',
+  '|': 'pipe-separated',
+};
+
+// Splits delimited text into rows, honouring double-quoted cells (Excel quotes cells containing newlines or tabs)
+export const splitDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell.trim());
+  rows.push(row);
+
+  return rows.filter(r => r.some(c => c !== ''));
+};
+
+// Picks the delimiter that splits the lines into the most consistent number of columns (at least 2)
+const detectDelimiter = (text: string): string | null => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim());
+  let best: { delimiter: string; score: number } | null = null;
+
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map(l => l.split(delimiter).length);
+    const maxColumns = Math.max(...counts);
+    if (maxColumns < 2) continue;
+
+    const consistent = counts.filter(c => c === maxColumns).length / counts.length;
+    const score = consistent * maxColumns;
+    if (!best || score > best.score) {
+      best = { delimiter, score };
+    }
+  }
+
+  return best ? best.delimiter : null;
+};
+
+// Parses pasted spreadsheet text without the LLM. Returns null when the text is not a
+// recognisable table (no delimiter, no header matching known columns, ragged rows),
+// in which case the caller should fall back to LLM extraction.
+export const parseDelimitedText = (text: string): LocalParseResult | null => {
+  const delimiter = detectDelimiter(text);
+  if (!delimiter) return null;
+
+  const rows = splitDelimited(text, delimiter);
+  if (rows.length < 2) return null;
+
+  const headerRow = detectHeaderRow(rows);
+  const headers = rows[headerRow];
+  const mapping = autoMapColumns(headers);
+
+  // Need at least two recognised columns, one of which identifies the lead
+  const mappedFields = Object.values(mapping).filter(Boolean).length;
+  if (mappedFields < 2 || !(mapping.company || mapping.email || mapping.phone)) return null;
+
+  const dataRows = rows.slice(headerRow + 1);
+  if (dataRows.length === 0) return null;
+
+  // Short rows are fine (trailing empty cells are dropped by Excel); extra columns mean we split wrongly
+  const consistentRows = dataRows.filter(r => r.length <= headers.length).length;
+  if (consistentRows / dataRows.length < MIN_CONSISTENT_ROWS) return null;
+
+  const customers = rowsToCustomers(headers, dataRows, mapping, 'cust-txt');
+  if (customers.length === 0) return null;
+
+  return { customers, delimiter, headers };
+};
@@ -0,0 +1,88 @@
+import { DraftLanguage, FollowUpState, GeneratedMessage, SavedItem, SequenceStep, TemplateChannel, ThreadMessage } from "../types";
+import { detectLanguage, languageForCountry } from "./languageService";
+
+// One message of the whole exchange with a lead, as the reply prompt sees it
+export interface ConversationEntry {
+  direction: ThreadMessage['direction'];
+  channel: TemplateChannel;
+  subject: string;
+  body: string;
+  at: number;
+}
+
+export const createThreadMessage = (
+  direction: ThreadMessage['direction'],
+  channel: TemplateChannel,
+  body: string,
+  extra: Partial<Pick<ThreadMessage, 'subject' | 'language' | 'suggested'>> = {}
+): ThreadMessage => ({
+  id: `msg-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  direction,
+  channel,
+  body,
+  createdAt: Date.now(),
+  ...extra,
+});
+
+export const createInboundReply = (channel: TemplateChannel, body: string): ThreadMessage =>
+  createThreadMessage('inbound', channel, body.trim(), { language: detectLanguage(body) });
+
+// Logs a pasted customer reply. A pending suggestion answered an older message, so it is dropped.
+export const addInboundReply = (item: SavedItem, reply: ThreadMessage): SavedItem => {
+  const thread = (item.thread || []).filter(m => !m.suggested);
+  return { ...item, thread: [...thread, reply] };
+};
+
+export const pendingSuggestion = (item: SavedItem): ThreadMessage | undefined => {
+  const last = item.thread?.[item.thread.length - 1];
+  return last?.suggested ? last : undefined;
+};
+
+export const setSuggestion = (item: SavedItem, suggestion: ThreadMessage): SavedItem => {
+  const thread = (item.thread || []).filter(m => !m.suggested);
+  return { ...item, thread: [...thread, { ...suggestion, suggested: true }] };
+};
+
+export const updateSuggestion = (item: SavedItem, changes: Partial<Pick<ThreadMessage, 'subject' | 'body'>>): SavedItem => ({
+  ...item,
+  thread: (item.thread || []).map(m => m.suggested ? { ...m, ...changes } : m),
+});
+
+export const markSuggestionSent = (item: SavedItem): SavedItem => ({
+  ...item,
+  thread: (item.thread || []).map(m => m.suggested ? { ...m, suggested: false, createdAt: Date.now() } : m),
+});
+
+// Answer in the language the customer last wrote in, else the language we opened with
+export const replyLanguage = (item: SavedItem): DraftLanguage => {
+  const inbound = [...(item.thread || [])].reverse().find(m => m.direction === 'inbound');
+  return inbound?.language || item.message.language || languageForCountry(item.customer.country);
+};
+
+// Email answers stay in the original thread
+export const replySubject = (item: SavedItem): string => {
+  const subject = item.message.subject;
+  return /^re:/i.test(subject) ? subject : `Re: ${subject}`;
+};
+
+// First message, sent follow-ups and the reply thread, oldest first. Suggestions are left out.
+export const conversationFor = (item: SavedItem, sequence: SequenceStep[], followUps: FollowUpState = {}): ConversationEntry[] => {
+  const toEntry = (channel: TemplateChannel, message: GeneratedMessage, at: number): ConversationEntry => ({
+    direction: 'outbound',
+    channel,
+    subject: channel === 'email' ? message.subject : '',
+    body: channel === 'whatsapp' ? message.whatsappBody || message.body : message.body,
+    at,
+  });
+
+  const entries: ConversationEntry[] = [toEntry(sequence[0]?.channel || 'email', item.message, item.savedAt || 0)];
+  sequence.slice(1).forEach(step => {
+    const progress = followUps[step.id];
+    if (progress?.doneAt && progress.message) entries.push(toEntry(step.channel, progress.message, progress.doneAt));
+  });
+  (item.thread || []).filter(m => !m.suggested).forEach(m => {
+    entries.push({ direction: m.direction, channel: m.channel, subject: m.subject || '', body: m.body, at: m.createdAt });
+  });
+
+  return entries.sort((a, b) => a.at - b.at);
+};
@@ -0,0 +1,243 @@
+import { Customer, CustomerField } from "../types";
+import { detectCountry, findCountryByDialPrefix } from "./countryService";
+import { splitPhoneNumbers } from "./phoneService";
+import { applyCustomerEdits, CUSTOMER_FIELDS, lowConfidenceFields } from "./customerService";
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface QualityIssue {
+  field: CustomerField;
+  severity: IssueSeverity;
+  message: string;
+  fix?: {
+    label: string;
+    patch: Partial<Record<CustomerField, string>>;
+  };
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[a-z]{2,}$/i;
+
+// Webmail providers whose names are long enough to fuzzy-match safely
+const COMMON_PROVIDERS = ['gmail', 'yahoo', 'hotmail', 'outlook', 'icloud', 'yandex'];
+
+// Real mail domains one letter away from a common provider; never "corrected"
+const KNOWN_DOMAINS = [
+  'mail.ru', 'mail.com', 'email.com', 'ymail.com', 'cloud.com', 'gmx.com', 'gmx.net', 'gmx.de',
+  'yandex.ru', 'yandex.com', 'inbox.ru', 'list.ru', 'bk.ru', 'hotmail.fr', 'outlook.fr', 'yahoo.fr',
+];
+
+// OCR and typing slips in top-level domains
+const TLD_TYPOS: Record<string, string> = {
+  corn: 'com',
+  con: 'com',
+  cmo: 'com',
+  comm: 'com',
+  coom: 'com',
+  vom: 'com',
+  xom: 'com',
+  nte: 'net',
+  ogr: 'org',
+};
+
+// An address rather than just a country: several comma-separated parts, or a street number
+const ADDRESS_PATTERN = /,|\d/;
+
+// Edit distance where swapping two neighbouring letters ("gmial") counts as one edit, like a missing or extra one
+const editDistance = (a: string, b: string): number => {
+  const d = Array.from({ length: a.length + 1 }, (_, i) => Array.from({ length: b.length + 1 }, (_, j) => i === 0 ? j : j === 0 ? i : 0));
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+    }
+  }
+  return d[a.length][b.length];
+};
+
+// Undoes common OCR artefacts: spaces, "mailto:", "(at)", trailing punctuation
+export const cleanEmail = (email: string): string => {
+  return email
+    .trim()
+    .replace(/^mailto:/i, '')
+    .replace(/\s*[([]\s*at\s*[)\]]\s*/gi, '@')
+    .replace(/\s+/g, '')
+    .replace(/[.,;:]+$/, '')
+    .toLowerCase();
+};
+
+// Suggests a corrected domain for near-misses of popular providers ("gmial.com") or mistyped TLDs ("gmail.corn")
+export const suggestEmailDomain = (email: string): string | null => {
+  const [local, domain] = email.split('@');
+  if (!local || !domain || !domain.includes('.')) return null;
+
+  if (KNOWN_DOMAINS.includes(domain)) return null;
+
+  const parts = domain.split('.');
+  const provider = parts[0];
+  const tld = parts[parts.length - 1];
+
+  // Only "gmial.com" or "yahooo.co.uk" shapes: a company domain like "mail.company.com" is left alone,
+  // and short labels are too close to too many real names to guess at
+  const looksLikeProvider = provider.length >= 5 && parts.slice(1).every(part => part.length <= 3);
+  const fixedProvider = COMMON_PROVIDERS.includes(provider) || !looksLikeProvider
+    ? provider
+    : COMMON_PROVIDERS.find(p => editDistance(provider, p) === 1) || provider;
+  const fixedTld = TLD_TYPOS[tld] || tld;
+
+  if (fixedProvider === provider && fixedTld === tld) return null;
+  return `${local}@${[fixedProvider, ...parts.slice(1, -1), fixedTld].join('.')}`;
+};
+
+export const normalizeWebsite = (website: string): string => {
+  const compact = website.trim().replace(/\s+/g, '');
+  if (!compact) return '';
+  const withoutScheme = compact.replace(/^https?:\/\//i, '');
+  const [host, ...path] = withoutScheme.split('/');
+  const normalizedPath = path.join('/').replace(/\/+$/, '');
+  return normalizedPath ? `${host.toLowerCase()}/${normalizedPath}` : host.toLowerCase();
+};
+
+// "ahmad.ghazzoul@..." -> "Ahmad Ghazzoul"; null for role mailboxes like info@ or sales@
+export const nameFromEmail = (email: string): string | null => {
+  const local = email.split('@')[0] || '';
+  const parts = local.split(/[._-]+/).filter(p => /^[a-z]{2,}$/i.test(p));
+  if (parts.length < 2) return null;
+  return parts.map(p => p.charAt(0).toUpperCase() + p.slice(1).toLowerCase()).join(' ');
+};
+
+const checkEmail = (customer: Customer): QualityIssue[] => {
+  if (!customer.email) {
+    return [{ field: 'email', severity: 'warning', message: 'No email address; only WhatsApp can be used.' }];
+  }
+
+  const cleaned = cleanEmail(customer.email);
+  const suggestion = suggestEmailDomain(cleaned);
+
+  if (suggestion) {
+    // Only a guess, so it never blocks drafting
+    return [{
+      field: 'email',
+      severity: 'warning',
+      message: `"${customer.email}" may be a typo.`,
+      fix: { label: `Use ${suggestion}`, patch: { email: suggestion } },
+    }];
+  }
+  if (!EMAIL_PATTERN.test(cleaned)) {
+    return [{ field: 'email', severity: 'error', message: `"${customer.email}" is not a valid email address.` }];
+  }
+  if (cleaned !== customer.email) {
+    return [{
+      field: 'email',
+      severity: 'warning',
+      message: 'Email contains stray characters.',
+      fix: { label: `Use ${cleaned}`, patch: { email: cleaned } },
+    }];
+  }
+  return [];
+};
+
+const checkWebsite = (customer: Customer): QualityIssue[] => {
+  if (!customer.website) return [];
+
+  const normalized = normalizeWebsite(customer.website);
+  if (normalized.includes('@')) {
+    return [{
+      field: 'website',
+      severity: 'warning',
+      message: 'Website field holds an email address.',
+      fix: customer.email ? undefined : { label: 'Move to email', patch: { email: cleanEmail(normalized), website: '' } },
+    }];
+  }
+  if (!normalized.split('/')[0].includes('.')) {
+    return [{ field: 'website', severity: 'warning', message: `"${customer.website}" is not a valid website.` }];
+  }
+  if (normalized !== customer.website.trim()) {
+    return [{
+      field: 'website',
+      severity: 'warning',
+      message: 'Website has spaces or an inconsistent format.',
+      fix: { label: `Use ${normalized}`, patch: { website: normalized } },
+    }];
+  }
+  return [];
+};
+
+const checkCountry = (customer: Customer): QualityIssue[] => {
+  const detected = detectCountry(customer.country);
+
+  if (!customer.country.trim()) {
+    // Fall back to the dial code of an international number
+    const international = splitPhoneNumbers(customer.phone)
+      .map(p => p.trim())
+      .find(p => p.startsWith('+') || p.startsWith('00'));
+    const fromPhone = international ? findCountryByDialPrefix(international.replace(/\D/g, '').replace(/^00/, '')) : undefined;
+    return [{
+      field: 'country',
+      severity: 'warning',
+      message: 'Country is missing.',
+      fix: fromPhone ? { label: `Set to ${fromPhone.name} (from phone)`, patch: { country: fromPhone.name } } : undefined,
+    }];
+  }
+
+  if (!detected) {
+    return [{ field: 'country', severity: 'warning', message: `Could not recognise a country in "${customer.country}".` }];
+  }
+
+  if (ADDRESS_PATTERN.test(customer.country) && customer.country.trim() !== detected.name) {
+    // Keep the full address in the notes so nothing is lost
+    const notes = [customer.notes, `Address: ${customer.country.trim()}`].filter(Boolean).join('\n');
+    return [{
+      field: 'country',
+      severity: 'warning',
+      message: 'Country field holds a full address.',
+      fix: { label: `Set to ${detected.name}, keep address in notes`, patch: { country: detected.name, notes } },
+    }];
+  }
+  return [];
+};
+
+const checkNames = (customer: Customer): QualityIssue[] => {
+  const issues: QualityIssue[] = [];
+
+  if (!customer.company.trim()) {
+    issues.push({ field: 'company', severity: 'error', message: 'Company name is missing.' });
+  }
+
+  if (!customer.representative.trim()) {
+    const guessed = customer.email ? nameFromEmail(cleanEmail(customer.email)) : null;
+    issues.push({
+      field: 'representative',
+      severity: 'warning',
+      message: 'Contact name is missing; drafts will use a generic greeting.',
+      fix: guessed ? { label: `Use "${guessed}" (from email)`, patch: { representative: guessed } } : undefined,
+    });
+  }
+
+  return issues;
+};
+
+// Values the extraction was unsure of stay flagged until they are edited or confirmed
+const checkConfidence = (customer: Customer): QualityIssue[] => {
+  return lowConfidenceFields(customer).map(field => ({
+    field,
+    severity: 'warning' as const,
+    message: `${CUSTOMER_FIELDS.find(f => f.key === field)?.label} may be misread; check it against the source.`,
+  }));
+};
+
+export const validateCustomer = (customer: Customer): QualityIssue[] => [
+  ...checkNames(customer),
+  ...checkEmail(customer),
+  ...checkWebsite(customer),
+  ...checkCountry(customer),
+  ...checkConfidence(customer),
+];
+
+// Applies the suggested patch of every fixable issue found in a single validation pass
+export const applyAllFixes = (customer: Customer): Customer => {
+  let fixed = customer;
+  for (const issue of validateCustomer(customer)) {
+    if (issue.fix) fixed = applyCustomerEdits(fixed, issue.fix.patch);
+  }
+  return fixed;
+};
@@ -0,0 +1,61 @@
+import { Customer, GeneratedMessage, WhatsappLogEntry, WhatsappOutcome } from "../types";
+import { normalizePhone, PhoneCheck, splitPhoneNumbers, whatsappDigits } from "./phoneService";
+
+export type WhatsappLinkType = 'web' | 'app' | 'business';
+
+export interface WhatsappDraft {
+  customer: Customer;
+  message: GeneratedMessage;
+}
+
+export const WHATSAPP_LINK_TYPES: { id: WhatsappLinkType; label: string; description: string }[] = [
+  { id: 'web', label: 'Web', description: 'wa.me link, opens WhatsApp Web or the installed app' },
+  { id: 'app', label: 'App', description: 'whatsapp:// link, opens the desktop or phone app' },
+  { id: 'business', label: 'Business', description: 'Android intent for WhatsApp Business' },
+];
+
+export const WHATSAPP_OUTCOMES: { id: WhatsappOutcome; label: string; badge: string }[] = [
+  { id: 'sent', label: 'Sent', badge: 'bg-green-100 text-green-800' },
+  { id: 'skipped', label: 'Skipped', badge: 'bg-gray-100 text-gray-700' },
+  { id: 'wrongNumber', label: 'Wrong number', badge: 'bg-red-100 text-red-800' },
+];
+
+export const outcomeInfo = (outcome: WhatsappOutcome) => WHATSAPP_OUTCOMES.find(o => o.id === outcome)!;
+
+export const whatsappText = (message: GeneratedMessage): string => message.whatsappBody || message.body;
+
+export const whatsappLink = (phone: PhoneCheck, text: string, type: WhatsappLinkType): string => {
+  if (!phone.e164) return '#';
+
+  // Protocols expect the number without '+'
+  const phoneForUrl = whatsappDigits(phone);
+  const encoded = encodeURIComponent(text);
+
+  switch (type) {
+    case 'business':
+      // Android intent to force WhatsApp Business
+      return `intent://send?phone=${phoneForUrl}&text=${encoded}#Intent;package=com.whatsapp.w4b;scheme=whatsapp;end`;
+    case 'app':
+      // Standard App scheme
+      return `whatsapp://send?phone=${phoneForUrl}&text=${encoded}`;
+    case 'web':
+    default:
+      // Universal link (usually handled by browser/OS preference)
+      return `https://wa.me/${phoneForUrl}?text=${encoded}`;
+  }
+};
+
+// Numbers of a lead that WhatsApp can be opened for
+export const whatsappNumbers = (customer: Customer): PhoneCheck[] => {
+  return splitPhoneNumbers(customer.phone || '').map(p => normalizePhone(p, customer.country)).filter(p => p.e164);
+};
+
+export const lastOutcome = (log?: WhatsappLogEntry[]): WhatsappLogEntry | undefined => log?.[log.length - 1];
+
+export const wasMessaged = (log?: WhatsappLogEntry[]): boolean => !!log?.some(entry => entry.outcome === 'sent');
+
+export const countOutcomes = (entries: WhatsappLogEntry[]): Record<WhatsappOutcome, number> => {
+  const counts: Record<WhatsappOutcome, number> = { sent: 0, skipped: 0, wrongNumber: 0 };
+  entries.forEach(entry => { counts[entry.outcome]++; });
+  return counts;
+};
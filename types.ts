@@ -7,6 +7,61 @@ export interface Customer {
   email: string;
   website: string;
   notes: string; // The Açıklama column
+  confidence?: Partial<Record<CustomerField, number>>; // 0-1 per field, from LLM extraction
+  edits?: FieldEdit[]; // Manual corrections, oldest first
+  templateSelection?: TemplateSelection; // Overrides the campaign's templates for this lead
+  source?: SourceRef; // Where an image or PDF extraction found this row
+}
+
+// Page of an uploaded file that a contact was read from
+export interface SourceRef {
+  fileName: string;
+  page: number; // 1-based page within the file; always 1 for images
+  uploadId?: string; // The UploadedFile, while it is still held in memory for review
+  box?: SourceBox; // Where the row sits on an image
+}
+
+// Region of a source image as fractions (0-1) of its width and height
+export interface SourceBox {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+// An image or PDF picked for extraction, kept as base64 without the data: prefix
+export interface UploadedFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  data: string;
+}
+
+// The editable text fields of a customer
+export type CustomerField = 'company' | 'representative' | 'phone' | 'country' | 'email' | 'website' | 'notes';
+
+export interface FieldEdit {
+  field: CustomerField;
+  from: string;
+  to: string;
+  editedAt: number;
+}
+
+// Maps each Customer field to a spreadsheet header ('' = ignore)
+export type ColumnMapping = Record<CustomerField, string>;
+
+// Registered in languageService
+export type DraftLanguage = 'en' | 'ar' | 'tr' | 'ru' | 'fr' | 'es' | 'pt' | 'zh';
+
+// One version of a draft, either as the model returned it or as saved after a manual edit
+export interface DraftRevision {
+  id: string;
+  subject: string;
+  body: string;
+  whatsappBody?: string;
+  source: 'generated' | 'edited';
+  language?: DraftLanguage;
+  createdAt: number;
 }
 
 export interface GeneratedMessage {
@@ -14,6 +69,32 @@ export interface GeneratedMessage {
   body: string;
   type: 'email' | 'whatsapp';
   whatsappBody?: string;
+  language?: DraftLanguage;
+  edited?: boolean; // The current text was changed by hand
+  revisions?: DraftRevision[]; // Oldest first
+  revisionId?: string; // Revision the current text comes from
+}
+
+export type TemplateChannel = 'email' | 'whatsapp';
+
+// "fill" renders the template locally with no LLM call; "style" hands it to the LLM as a style guide
+export type TemplateMode = 'fill' | 'style';
+
+// Templates are chosen per channel and language, e.g. "email:ar"
+export type TemplateSlot = `${TemplateChannel}:${DraftLanguage}`;
+
+export interface MessageTemplate {
+  id: string;
+  name: string;
+  channel: TemplateChannel;
+  language: DraftLanguage;
+  subject: string; // Email only
+  body: string; // Text with {{placeholders}}
+}
+
+export interface TemplateSelection {
+  mode: TemplateMode;
+  templateIds: Partial<Record<TemplateSlot, string>>;
 }
 
 export interface GenerationContext {
@@ -22,9 +103,152 @@ export interface GenerationContext {
   exhibitionLocation: string;
 }
 
+// Where an archived lead stands in the sales pipeline
+export type LeadStatus = 'saved' | 'sent' | 'replied' | 'quoted' | 'ordered' | 'cold';
+
+export interface StatusChange {
+  status: LeadStatus;
+  changedAt: number;
+  note: string; // Free-text outcome, e.g. "asked for 2 pallets, quote #123"
+}
+
+export interface SavedItem {
+  customer: Customer;
+  message: GeneratedMessage;
+  savedAt?: number; // When the first message went out; day 0 of the follow-up sequence
+  status?: LeadStatus; // Missing on items archived before the pipeline existed: 'saved'
+  statusHistory?: StatusChange[]; // Oldest first
+  thread?: ThreadMessage[]; // Conversation after the first message, oldest first
+}
+
+// A reply from the lead, or our answer to one
+export interface ThreadMessage {
+  id: string;
+  direction: 'inbound' | 'outbound';
+  channel: TemplateChannel;
+  subject?: string;
+  body: string;
+  language?: DraftLanguage;
+  createdAt: number;
+  suggested?: boolean; // Generated answer not sent yet; only the last message can be one
+}
+
+// One touch in a campaign's follow-up cadence. The first step is the initial draft on the card.
+export interface SequenceStep {
+  id: string;
+  dayOffset: number; // Days after the first message
+  channel: TemplateChannel;
+  purpose: string; // What this touch should achieve; guides the LLM
+}
+
+export interface FollowUpStepState {
+  message?: GeneratedMessage;
+  doneAt?: number;
+  skipped?: boolean;
+}
+
+// Follow-up progress of one saved lead, keyed by step id
+export type FollowUpState = Record<string, FollowUpStepState>;
+
+// Pipeline fields of an archived lead, kept while it is back on the active list so re-archiving picks them up again
+export type HeldPipeline = Pick<SavedItem, 'savedAt' | 'status' | 'statusHistory' | 'thread'>;
+
+// A trade fair follow-up effort. Owns its own context and lead lists so that
+// drafts are always generated against the fair the lead was met at.
+export interface Campaign {
+  id: string;
+  name: string;
+  context: GenerationContext;
+  customers: Customer[];
+  generatedMessages: Record<string, GeneratedMessage>;
+  savedItems: SavedItem[];
+  archived: boolean;
+  createdAt: number;
+  templateSelection?: TemplateSelection;
+  sequence?: SequenceStep[];
+  followUps?: Record<string, FollowUpState>; // Keyed by customer id
+  heldPipelines?: Record<string, HeldPipeline>; // Archived leads moved back to the active list, keyed by customer id
+  sendLog?: Record<string, SendLogEntry[]>; // Keyed by customer id
+  whatsappLog?: Record<string, WhatsappLogEntry[]>; // Keyed by customer id
+}
+
+// Everything needed to rebuild the working state after a reload.
+// Bump the schema version in storageService when this shape changes.
+export interface WorkspaceSnapshot {
+  schemaVersion: number;
+  savedAt: number;
+  campaigns: Campaign[];
+  activeCampaignId: string;
+}
+
+export type LLMProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface LLMSettings {
+  provider: LLMProviderId;
+  model: string;
+  baseUrl: string; // Only used by OpenAI-compatible endpoints, e.g. http://localhost:11434/v1
+  apiKey: string;  // Falls back to GEMINI_API_KEY from the environment for Gemini
+  concurrency: number; // Drafts a bulk run generates in parallel
+  maxRetries: number; // Retries per draft on rate-limit and server errors
+}
+
+// The person the drafts are written as
+export interface SenderProfile {
+  id: string;
+  name: string;
+  nameArabic: string;
+  title: string;
+  phone: string;
+  email: string;
+  signature: string; // Optional custom email sign-off; built from the other fields when empty
+}
+
+export type SmtpSecurity = 'none' | 'starttls' | 'tls';
+
+// Outgoing mail server. The browser can't speak SMTP, so messages go through the dev server's relay.
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  security: SmtpSecurity; // 'tls' is implicit TLS (usually port 465), 'starttls' upgrades a plain connection (587)
+  username: string; // Empty for servers without login, e.g. MailHog
+  password: string;
+  throttleSeconds: number; // Pause between messages of a bulk send
+}
+
+// One attempt to send a lead an email over SMTP
+export interface SendLogEntry {
+  sentAt: number;
+  messageId: string;
+  to: string;
+  subject: string;
+  result: 'sent' | 'failed';
+  response: string; // Server reply on success, error message on failure
+}
+
+export type WhatsappOutcome = 'sent' | 'skipped' | 'wrongNumber';
+
+// What the user reported after opening WhatsApp for a lead. The app can't see whether a message really went out.
+export interface WhatsappLogEntry {
+  at: number;
+  phone: string; // E.164 number the chat was opened for
+  outcome: WhatsappOutcome;
+}
+
+// App-wide preferences, stored separately from the campaign workspace
+export interface AppSettings {
+  llm: LLMSettings;
+  smtp: SmtpSettings;
+  senderProfiles: SenderProfile[];
+  activeSenderProfileId: string;
+  templates: MessageTemplate[];
+}
+
+// Progress of a bulk generation run
 export interface ProcessingStatus {
-  isAnalyzing: boolean;
   isGenerating: boolean;
-  progress: number;
+  isPaused: boolean;
+  progress: number; // Jobs finished, successfully or not
+  failed: number;
   total: number;
+  etaMs?: number; // Unknown until the first job finishes
 }
\ No newline at end of file